@@ -29,6 +29,12 @@ import { adminRoutes } from "./modules/admin/routes/admin.routes.js";
 //TripRoutes import
 import { tripRoutes } from "./modules/trip/routes/trip.routes.js";
 
+//RegionRoutes import
+import { regionRoutes } from "./modules/region/routes/region.routes.js";
+
+//IncidentRoutes import
+import { incidentRoutes } from "./modules/incident/routes/incident.routes.js";
+
 const app: Application = express();
 
 app.use(
@@ -75,6 +81,12 @@ app.use("/api/v2/hospital", hospitalRoutes)
 //TripRoutes
 app.use("/api/v2/trip", tripRoutes)
 
+//RegionRoutes
+app.use("/api/v2/region", regionRoutes)
+
+//IncidentRoutes
+app.use("/api/v2/incident", incidentRoutes)
+
 // Global Error Handler middleware
 app.use((err: any, req: Request, res: Response, next: NextFunction) => {
   // If the error is a known ApiError
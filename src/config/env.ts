@@ -12,4 +12,56 @@ const REDIS_URL= process.env.REDIS_URL as string
 const ADMIN_CREATION_SECRET = process.env.ADMIN_CREATION_SECRET as string
 const BASE_URL = process.env.BASE_URL as string
 
-export { PORT, MONGO_URI, ACCESS_TOKEN_SECRET, REFRESH_TOKEN_SECRET, NODE_ENV, REDIS_URL, ADMIN_CREATION_SECRET, BASE_URL };
+// Dispatch tuning
+const TRIP_OFFER_TIMEOUT_SECONDS = Number(process.env.TRIP_OFFER_TIMEOUT_SECONDS) || 30
+const SEARCH_SWEEP_INTERVAL_SECONDS = Number(process.env.SEARCH_SWEEP_INTERVAL_SECONDS) || 30
+const UNASSIGNED_ALERT_THRESHOLD_SECONDS = Number(process.env.UNASSIGNED_ALERT_THRESHOLD_SECONDS) || 180
+
+// Ready ambulances not heard from (socket heartbeat / location) for this long are evicted from the pool
+const AMBULANCE_STALE_THRESHOLD_SECONDS = Number(process.env.AMBULANCE_STALE_THRESHOLD_SECONDS) || 120
+const STALE_SWEEP_INTERVAL_SECONDS = Number(process.env.STALE_SWEEP_INTERVAL_SECONDS) || 30
+
+// Crews on shift longer than MAX_CONTINUOUS_DUTY_HOURS get no new trip offers until they clock out.
+// Planned shifts can be clocked into up to SHIFT_CLOCK_IN_GRACE_MINUTES early; later counts as a late clock-in
+const MAX_CONTINUOUS_DUTY_HOURS = Number(process.env.MAX_CONTINUOUS_DUTY_HOURS) || 12
+const SHIFT_CLOCK_IN_GRACE_MINUTES = Number(process.env.SHIFT_CLOCK_IN_GRACE_MINUTES) || 15
+
+// Scheduled (non-emergency) transport: dispatch starts this long before the pickup window,
+// reminders go out at each of the listed offsets (minutes before the window starts)
+const SCHEDULED_DISPATCH_LEAD_MINUTES = Number(process.env.SCHEDULED_DISPATCH_LEAD_MINUTES) || 30
+const SCHEDULED_REMINDER_MINUTES = (process.env.SCHEDULED_REMINDER_MINUTES || "1440,60,10")
+  .split(",")
+  .map(Number)
+  .filter((minutes) => minutes > 0)
+
+// How long a bed / blood units stay held for an incoming trip before it goes back to the hospital's stock
+const BED_RESERVATION_TTL_MINUTES = Number(process.env.BED_RESERVATION_TTL_MINUTES) || 90
+const BLOOD_RESERVATION_TTL_MINUTES = Number(process.env.BLOOD_RESERVATION_TTL_MINUTES) || 180
+
+// Ambulances within this distance of the pickup / dropoff are marked as arrived automatically
+const GEOFENCE_RADIUS_METERS = Number(process.env.GEOFENCE_RADIUS_METERS) || 100
+
+// Trip breadcrumbs: at most one stored position per participant every TRACK_MIN_INTERVAL_SECONDS,
+// buffered in Redis and written to MongoDB in batches every TRACK_FLUSH_INTERVAL_SECONDS
+const TRACK_MIN_INTERVAL_SECONDS = Number(process.env.TRACK_MIN_INTERVAL_SECONDS) || 5
+const TRACK_FLUSH_INTERVAL_SECONDS = Number(process.env.TRACK_FLUSH_INTERVAL_SECONDS) || 15
+
+// Unlike `Number(x) || default`, keeps an explicit 0 (a free tariff item is a valid setting)
+const numberOrDefault = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value)
+  return value === undefined || value.trim() === "" || Number.isNaN(parsed) ? fallback : parsed
+}
+
+// Trip fare tariff (amounts in FARE_CURRENCY). Capability surcharges are "CLASS:amount" pairs
+const FARE_CURRENCY = process.env.FARE_CURRENCY || "INR"
+const FARE_BASE = numberOrDefault(process.env.FARE_BASE, 500)
+const FARE_PER_KM = numberOrDefault(process.env.FARE_PER_KM, 25)
+const FARE_WAITING_PER_MINUTE = numberOrDefault(process.env.FARE_WAITING_PER_MINUTE, 5)
+const FARE_FREE_WAITING_MINUTES = numberOrDefault(process.env.FARE_FREE_WAITING_MINUTES, 10)
+const FARE_CAPABILITY_SURCHARGES = process.env.FARE_CAPABILITY_SURCHARGES || "BLS:0,ALS:300,ICU:1000,NEONATAL:1000"
+
+// Road-network ETA (OSRM-compatible server). Leave OSRM_URL empty to use the straight-line heuristic
+const OSRM_URL = process.env.OSRM_URL as string
+const OSRM_TIMEOUT_MS = Number(process.env.OSRM_TIMEOUT_MS) || 2000
+
+export { PORT, MONGO_URI, ACCESS_TOKEN_SECRET, REFRESH_TOKEN_SECRET, NODE_ENV, REDIS_URL, ADMIN_CREATION_SECRET, BASE_URL, TRIP_OFFER_TIMEOUT_SECONDS, SEARCH_SWEEP_INTERVAL_SECONDS, UNASSIGNED_ALERT_THRESHOLD_SECONDS, AMBULANCE_STALE_THRESHOLD_SECONDS, STALE_SWEEP_INTERVAL_SECONDS, MAX_CONTINUOUS_DUTY_HOURS, SHIFT_CLOCK_IN_GRACE_MINUTES, SCHEDULED_DISPATCH_LEAD_MINUTES, SCHEDULED_REMINDER_MINUTES, BED_RESERVATION_TTL_MINUTES, BLOOD_RESERVATION_TTL_MINUTES, GEOFENCE_RADIUS_METERS, TRACK_MIN_INTERVAL_SECONDS, TRACK_FLUSH_INTERVAL_SECONDS, FARE_CURRENCY, FARE_BASE, FARE_PER_KM, FARE_WAITING_PER_MINUTE, FARE_FREE_WAITING_MINUTES, FARE_CAPABILITY_SURCHARGES, OSRM_URL, OSRM_TIMEOUT_MS };
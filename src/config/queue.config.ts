@@ -1,11 +1,67 @@
 import { Queue, Worker } from "bullmq";
-import type { QueueOptions, WorkerOptions, ConnectionOptions } from "bullmq";
+import type { QueueOptions, WorkerOptions, ConnectionOptions, Processor } from "bullmq";
 import { REDIS_URL } from "./env.js";
 
 const queueConnection: ConnectionOptions = {
-  url: REDIS_URL, 
+  url: REDIS_URL,
+  // Workers use blocking commands, BullMQ requires this to be null
+  maxRetriesPerRequest: null,
   // BullMQ options for robustness
   retryStrategy: function (times) {
     return Math.max(Math.min(Math.exp(times), 20000), 1000);
   },
 };
+
+// Names of all queues used by the app (one place to avoid typos)
+const QUEUE_NAMES = {
+  DISPATCH: "dispatch",
+  SCHEDULED_TRIPS: "scheduled-trips",
+  RESERVATIONS: "reservations",
+  TRACKS: "tracks",
+} as const;
+
+const defaultQueueOptions: QueueOptions = {
+  connection: queueConnection,
+  defaultJobOptions: {
+    removeOnComplete: true,
+    removeOnFail: 100, // Keep the last 100 failures for debugging
+  },
+};
+
+const defaultWorkerOptions: WorkerOptions = {
+  connection: queueConnection,
+  concurrency: 5,
+};
+
+/**
+ * Create a queue with the shared connection and default job options
+ */
+const createQueue = (name: string, options: Partial<QueueOptions> = {}): Queue => {
+  return new Queue(name, { ...defaultQueueOptions, ...options });
+};
+
+/**
+ * Create a worker with the shared connection and basic logging
+ */
+const createWorker = (
+  name: string,
+  processor: Processor,
+  options: Partial<WorkerOptions> = {}
+): Worker => {
+  const worker = new Worker(name, processor, {
+    ...defaultWorkerOptions,
+    ...options,
+  });
+
+  worker.on("failed", (job, error) => {
+    console.error(`❌ Job ${job?.name} (${job?.id}) failed on ${name}:`, error);
+  });
+
+  worker.on("error", (error) => {
+    console.error(`❌ Worker error on ${name}:`, error);
+  });
+
+  return worker;
+};
+
+export { queueConnection, QUEUE_NAMES, createQueue, createWorker };
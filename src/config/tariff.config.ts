@@ -0,0 +1,53 @@
+import {
+  FARE_CURRENCY,
+  FARE_BASE,
+  FARE_PER_KM,
+  FARE_WAITING_PER_MINUTE,
+  FARE_FREE_WAITING_MINUTES,
+  FARE_CAPABILITY_SURCHARGES,
+} from "./env.js";
+import { AMBULANCE_CAPABILITIES } from "../modules/ambulance/model/ambulance.model.js";
+import type { AmbulanceCapability } from "../modules/ambulance/model/ambulance.model.js";
+
+export interface Tariff {
+  currency: string;
+  baseFare: number;
+  perKm: number;
+  waitingPerMinute: number;
+  freeWaitingMinutes: number;
+  capabilitySurcharge: Record<AmbulanceCapability, number>;
+}
+
+/**
+ * Parse "BLS:0,ALS:300,..." into a surcharge per capability class (missing classes: 0)
+ */
+const parseCapabilitySurcharges = (
+  value: string
+): Record<AmbulanceCapability, number> => {
+  const surcharges = Object.fromEntries(
+    AMBULANCE_CAPABILITIES.map((capability) => [capability, 0])
+  ) as Record<AmbulanceCapability, number>;
+
+  for (const pair of value.split(",")) {
+    const [capability, amount] = pair.split(":").map((part) => part.trim());
+    if (
+      AMBULANCE_CAPABILITIES.includes(capability as AmbulanceCapability) &&
+      Number(amount) >= 0
+    ) {
+      surcharges[capability as AmbulanceCapability] = Number(amount);
+    }
+  }
+
+  return surcharges;
+};
+
+const TARIFF: Tariff = {
+  currency: FARE_CURRENCY,
+  baseFare: FARE_BASE,
+  perKm: FARE_PER_KM,
+  waitingPerMinute: FARE_WAITING_PER_MINUTE,
+  freeWaitingMinutes: FARE_FREE_WAITING_MINUTES,
+  capabilitySurcharge: parseCapabilitySurcharges(FARE_CAPABILITY_SURCHARGES),
+};
+
+export { TARIFF };
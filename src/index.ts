@@ -4,6 +4,7 @@ import { ConnectDb } from "./config/Dbconnecton.js";
 import { BASE_URL, PORT } from "./config/env.js";
 import redis from "./config/redis.js";
 import { initializeSocket } from './shared/infra/sockets/socket.config.js';
+import { initializeQueueWorkers } from './shared/infra/queues/queue.workers.js';
 import { createServer } from "node:http";
 
 
@@ -21,6 +22,9 @@ const StartServer = async () => {
     // Initialize Socket.IO
     initializeSocket(httpServer);
 
+    // Start background job workers (trip offer timers, ...)
+    initializeQueueWorkers();
+
     // Start listening
     httpServer.listen(PORT, () => {
       console.log(`🚀 Server is running on ${BASE_URL}`);
@@ -1,4 +1,6 @@
 import { z } from "zod";
+import { AMBULANCE_CAPABILITIES } from "../model/ambulance.model.js";
+import { SHIFT_STATUSES } from "../model/shift.model.js";
 
 // Zod schema for ambulance location (GeoJSON Point)
 const locationSchema = z.object({
@@ -25,6 +27,7 @@ export const createAmbulanceSchema = z.object({
     .trim()
     .min(1, "Vehicle number is required")
     .transform((val) => val.toUpperCase()),
+  capabilityClass: z.enum(AMBULANCE_CAPABILITIES).default("BLS"),
   status: z.enum(["ready", "on-trip", "offline"]).default("offline"),
   location: locationSchema,
 });
@@ -48,6 +51,7 @@ export const updateAmbulanceSchema = z.object({
     .min(1)
     .transform((val) => val.toUpperCase())
     .optional(),
+  capabilityClass: z.enum(AMBULANCE_CAPABILITIES).optional(),
   status: z.enum(["ready", "on-trip", "offline"]).optional(),
   location: locationSchema.optional(),
 });
@@ -79,12 +83,80 @@ export const nearbyAmbulanceQuerySchema = z.object({
   latitude: z.coerce.number().min(-90).max(90),
   maxDistance: z.coerce.number().positive().default(5000), // in meters
   status: z.enum(["ready", "on-trip", "offline"]).optional(),
+  capability: z.enum(AMBULANCE_CAPABILITIES).optional(),
 });
 
+// Zod schema for clocking in / out ([lng, lat] where the driver is)
+export const clockShiftSchema = z.object({
+  location: z
+    .tuple([
+      z.number().min(-180).max(180), // longitude
+      z.number().min(-90).max(90),   // latitude
+    ])
+    .optional(),
+});
+
+// Zod schema for adding a planned shift to the roster (admin)
+export const createShiftSchema = z
+  .object({
+    ambulanceId: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid ambulance ID"),
+    plannedStart: z.coerce.date(),
+    plannedEnd: z.coerce.date(),
+    notes: z.string().trim().max(500).optional(),
+  })
+  .refine((shift) => shift.plannedEnd > shift.plannedStart, {
+    message: "plannedEnd must be after plannedStart",
+    path: ["plannedEnd"],
+  })
+  .refine(
+    (shift) =>
+      shift.plannedEnd.getTime() - shift.plannedStart.getTime() <=
+      24 * 60 * 60 * 1000,
+    {
+      message: "A planned shift cannot be longer than 24 hours",
+      path: ["plannedEnd"],
+    }
+  );
+
+// Zod schema for the shift roster query (defaults to the next 7 days)
+export const shiftRosterQuerySchema = z
+  .object({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    ambulanceId: z
+      .string()
+      .regex(/^[0-9a-fA-F]{24}$/, "Invalid ambulance ID")
+      .optional(),
+    status: z.enum(SHIFT_STATUSES).optional(),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: "from must be before to",
+    path: ["from"],
+  });
+
+// Zod schema for the duty hours report (defaults to the last 7 days)
+export const shiftReportQuerySchema = z
+  .object({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    ambulanceId: z
+      .string()
+      .regex(/^[0-9a-fA-F]{24}$/, "Invalid ambulance ID")
+      .optional(),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: "from must be before to",
+    path: ["from"],
+  });
+
 // Type exports for TypeScript
 export type CreateAmbulanceInput = z.infer<typeof createAmbulanceSchema>;
 export type UpdateAmbulanceInput = z.infer<typeof updateAmbulanceSchema>;
 export type AmbulanceLoginInput = z.infer<typeof ambulanceLoginSchema>;
 export type UpdateStatusInput = z.infer<typeof updateStatusSchema>;
 export type UpdateLocationInput = z.infer<typeof updateLocationSchema>;
-export type NearbyAmbulanceQuery = z.infer<typeof nearbyAmbulanceQuerySchema>;
\ No newline at end of file
+export type NearbyAmbulanceQuery = z.infer<typeof nearbyAmbulanceQuerySchema>;
+export type ClockShiftInput = z.infer<typeof clockShiftSchema>;
+export type CreateShiftInput = z.infer<typeof createShiftSchema>;
+export type ShiftRosterQuery = z.infer<typeof shiftRosterQuerySchema>;
+export type ShiftReportQuery = z.infer<typeof shiftReportQuerySchema>;
\ No newline at end of file
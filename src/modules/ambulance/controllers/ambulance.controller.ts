@@ -4,17 +4,35 @@ import { ApiResponse } from "../../../shared/utils/ApiResponce.js";
 import {
   ambulanceLoginSchema,
   createAmbulanceSchema,
+  clockShiftSchema,
+  createShiftSchema,
+  shiftRosterQuerySchema,
+  shiftReportQuerySchema,
 } from "../ambulance.dto/ambulance.dto.js";
 import type { Request, Response } from "express";
-import { Ambulance } from "../model/ambulance.model.js";
+import mongoose from "mongoose";
+import { Ambulance, AMBULANCE_CAPABILITIES } from "../model/ambulance.model.js";
+import type { AmbulanceCapability } from "../model/ambulance.model.js";
 import { NODE_ENV } from "../../../config/env.js";
 import {
   syncAmbulancetoRedis,
   removeAmbulanceFromRedis,
+  recordAmbulanceHeartbeat,
   findNearbyAmbulances,
   getActiveAmbulanceCount,
   getAllActiveAmbulanceIds
 } from "../services/ambulance.service.js";
+import {
+  getDutyStatus,
+  clockIn,
+  clockOut,
+  createRosterShift,
+  cancelRosterShift,
+  getRoster,
+  getShiftReport,
+} from "../services/shift.service.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 /**
  * @description Register a new ambulance
@@ -29,8 +47,15 @@ const registerAmbulance = asyncHandler(async (req: Request, res: Response) => {
     throw new ApiError(400, "Validation failed", validationResult.error.issues);
   }
 
-  const { driverName, driverPhone, password, vehicleNumber, status, location } =
-    validationResult.data;
+  const {
+    driverName,
+    driverPhone,
+    password,
+    vehicleNumber,
+    capabilityClass,
+    status,
+    location,
+  } = validationResult.data;
 
   // Check if ambulance already exists
   const existingAmbulance = await Ambulance.findOne({
@@ -52,6 +77,7 @@ const registerAmbulance = asyncHandler(async (req: Request, res: Response) => {
     driverPhone,
     password,
     vehicleNumber,
+    capabilityClass,
     status: status || "offline",
     location,
   });
@@ -244,6 +270,20 @@ const updateAmbulanceStatus = asyncHandler(
       );
     }
 
+    // Going available needs a running shift within the duty limit
+    if (status === "ready") {
+      const duty = await getDutyStatus(ambulanceId.toString());
+      if (!duty.onShift) {
+        throw new ApiError(409, "Clock in before going ready");
+      }
+      if (duty.fatigued) {
+        throw new ApiError(
+          409,
+          `Continuous duty limit of ${duty.maxContinuousDutyHours} hours reached. Clock out to rest`
+        );
+      }
+    }
+
     const ambulance = await Ambulance.findByIdAndUpdate(
       ambulanceId,
       { status },
@@ -314,6 +354,7 @@ const updateAmbulanceLocation = asyncHandler(
     // ---------------------------------------------------------
     // Note: If their status is "on-trip", this will ensure they stay removed from the "ready" pool
     await syncAmbulancetoRedis(ambulance);
+    await recordAmbulanceHeartbeat(ambulanceId.toString());
 
     res
       .status(200)
@@ -361,7 +402,7 @@ const getAmbulanceProfile = asyncHandler(
  */
 const getNearbyAmbulances = asyncHandler(
   async (req: Request, res: Response) => {
-    const { longitude, latitude, limit } = req.query;
+    const { longitude, latitude, limit, capability } = req.query;
 
     // Validate required parameters
     if (!longitude || !latitude) {
@@ -374,7 +415,8 @@ const getNearbyAmbulances = asyncHandler(
     // Parse and validate values
     const lng = parseFloat(longitude as string);
     const lat = parseFloat(latitude as string);
-    const maxResults = limit ? parseInt(limit as string, 10) : 10;
+    // Without a limit, the service region's candidate count is used
+    const maxResults = limit ? parseInt(limit as string, 10) : undefined;
 
     // Validate ranges
     if (isNaN(lng) || lng < -180 || lng > 180) {
@@ -385,12 +427,29 @@ const getNearbyAmbulances = asyncHandler(
       throw new ApiError(400, "Invalid latitude. Must be between -90 and 90");
     }
 
-    if (isNaN(maxResults) || maxResults <= 0 || maxResults > 50) {
+    if (
+      maxResults !== undefined &&
+      (isNaN(maxResults) || maxResults <= 0 || maxResults > 50)
+    ) {
       throw new ApiError(400, "Invalid limit. Must be between 1 and 50");
     }
 
+    if (
+      capability &&
+      !AMBULANCE_CAPABILITIES.includes(capability as AmbulanceCapability)
+    ) {
+      throw new ApiError(
+        400,
+        `Invalid capability. Must be one of: ${AMBULANCE_CAPABILITIES.join(", ")}`
+      );
+    }
+
     // Find nearby ambulances with automatic failover
-    const ambulances = await findNearbyAmbulances(lng, lat, maxResults);
+    const ambulances = await findNearbyAmbulances(lng, lat, maxResults, {
+      ...(capability && {
+        requiredCapability: capability as AmbulanceCapability,
+      }),
+    });
 
     // Check if ambulances were found
     if (ambulances.length === 0) {
@@ -414,6 +473,9 @@ const getNearbyAmbulances = asyncHandler(
         {
           count: ambulances.length,
           ambulances: ambulances,
+          capabilityDowngraded: ambulances.some(
+            (ambulance) => ambulance.capabilityDowngraded
+          ),
         },
         `Found ${ambulances.length} nearby ambulance(s)`
       )
@@ -440,6 +502,187 @@ const getAmbulanceStats = asyncHandler(async (req: Request, res: Response) => {
     )
   );
 });
+/**
+ * @description Clock in (starts the planned shift if one is due, otherwise an unplanned one)
+ * @route POST /api/v2/ambulance/shift/clock-in
+ * @access Private (Ambulance)
+ */
+const clockInShift = asyncHandler(async (req: Request, res: Response) => {
+  const ambulanceId = (req as any).ambulance?._id;
+
+  if (!ambulanceId) {
+    throw new ApiError(401, "Unauthorized");
+  }
+
+  const validationResult = clockShiftSchema.safeParse(req.body ?? {});
+  if (!validationResult.success) {
+    throw new ApiError(400, "Validation failed", validationResult.error.issues);
+  }
+
+  const { location } = validationResult.data;
+  const shift = await clockIn(ambulanceId.toString(), location);
+
+  res.status(201).json(new ApiResponse(201, shift, "Clocked in successfully"));
+});
+
+/**
+ * @description Clock out (the ambulance goes offline and leaves the dispatch pool)
+ * @route POST /api/v2/ambulance/shift/clock-out
+ * @access Private (Ambulance)
+ */
+const clockOutShift = asyncHandler(async (req: Request, res: Response) => {
+  const ambulanceId = (req as any).ambulance?._id;
+
+  if (!ambulanceId) {
+    throw new ApiError(401, "Unauthorized");
+  }
+
+  const validationResult = clockShiftSchema.safeParse(req.body ?? {});
+  if (!validationResult.success) {
+    throw new ApiError(400, "Validation failed", validationResult.error.issues);
+  }
+
+  const { location } = validationResult.data;
+  const shift = await clockOut(ambulanceId.toString(), location);
+
+  res.status(200).json(new ApiResponse(200, shift, "Clocked out successfully"));
+});
+
+/**
+ * @description Current shift, duty hours and the planned shifts of the next 7 days
+ * @route GET /api/v2/ambulance/shift
+ * @access Private (Ambulance)
+ */
+const getMyShift = asyncHandler(async (req: Request, res: Response) => {
+  const ambulanceId = (req as any).ambulance?._id;
+
+  if (!ambulanceId) {
+    throw new ApiError(401, "Unauthorized");
+  }
+
+  const now = new Date();
+  const [duty, upcoming] = await Promise.all([
+    getDutyStatus(ambulanceId.toString()),
+    getRoster({
+      from: now,
+      to: new Date(now.getTime() + 7 * DAY_MS),
+      ambulanceId: ambulanceId.toString(),
+      status: "PLANNED",
+    }),
+  ]);
+
+  res
+    .status(200)
+    .json(new ApiResponse(200, { ...duty, upcoming }, "Shift fetched successfully"));
+});
+
+/**
+ * @description Add a planned shift to the roster
+ * @route POST /api/v2/ambulance/admin/shifts
+ * @access Admin only
+ */
+const createShift = asyncHandler(async (req: Request, res: Response) => {
+  const adminId = (req as any).admin?._id;
+
+  if (!adminId) {
+    throw new ApiError(401, "Unauthorized");
+  }
+
+  const validationResult = createShiftSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    throw new ApiError(400, "Validation failed", validationResult.error.issues);
+  }
+
+  const { ambulanceId, plannedStart, plannedEnd, notes } = validationResult.data;
+
+  const shift = await createRosterShift(
+    { ambulanceId, plannedStart, plannedEnd, ...(notes && { notes }) },
+    `admin:${adminId}`
+  );
+
+  res.status(201).json(new ApiResponse(201, shift, "Shift planned successfully"));
+});
+
+/**
+ * @description Shift roster (defaults to the next 7 days)
+ * @route GET /api/v2/ambulance/admin/shifts
+ * @access Admin only
+ */
+const getShiftRoster = asyncHandler(async (req: Request, res: Response) => {
+  const validationResult = shiftRosterQuerySchema.safeParse(req.query);
+  if (!validationResult.success) {
+    throw new ApiError(400, "Validation failed", validationResult.error.issues);
+  }
+
+  const { from, to, ambulanceId, status } = validationResult.data;
+  const rangeStart = from ?? new Date();
+  const rangeEnd = to ?? new Date(rangeStart.getTime() + 7 * DAY_MS);
+
+  const shifts = await getRoster({
+    from: rangeStart,
+    to: rangeEnd,
+    ...(ambulanceId && { ambulanceId }),
+    ...(status && { status }),
+  });
+
+  res.status(200).json(
+    new ApiResponse(
+      200,
+      { from: rangeStart, to: rangeEnd, count: shifts.length, shifts },
+      "Shift roster fetched successfully"
+    )
+  );
+});
+
+/**
+ * @description Remove a planned shift from the roster
+ * @route DELETE /api/v2/ambulance/admin/shifts/:shiftId
+ * @access Admin only
+ */
+const cancelShift = asyncHandler(async (req: Request, res: Response) => {
+  const { shiftId } = req.params;
+
+  if (!shiftId || !mongoose.Types.ObjectId.isValid(shiftId)) {
+    throw new ApiError(400, "Invalid shift ID");
+  }
+
+  const shift = await cancelRosterShift(shiftId);
+
+  res.status(200).json(new ApiResponse(200, shift, "Shift cancelled successfully"));
+});
+
+/**
+ * @description Duty hours, missed / late shifts and overtime per ambulance (defaults to the last 7 days)
+ * @route GET /api/v2/ambulance/admin/shifts/report
+ * @access Admin only
+ */
+const getShiftReportController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const validationResult = shiftReportQuerySchema.safeParse(req.query);
+    if (!validationResult.success) {
+      throw new ApiError(400, "Validation failed", validationResult.error.issues);
+    }
+
+    const { from, to, ambulanceId } = validationResult.data;
+    const rangeEnd = to ?? new Date();
+    const rangeStart = from ?? new Date(rangeEnd.getTime() - 7 * DAY_MS);
+
+    const ambulances = await getShiftReport({
+      from: rangeStart,
+      to: rangeEnd,
+      ...(ambulanceId && { ambulanceId }),
+    });
+
+    res.status(200).json(
+      new ApiResponse(
+        200,
+        { from: rangeStart, to: rangeEnd, count: ambulances.length, ambulances },
+        "Shift report generated successfully"
+      )
+    );
+  }
+);
+
 export {
   registerAmbulance,
   loginAmbulance,
@@ -448,5 +691,12 @@ export {
   updateAmbulanceLocation,
   getAmbulanceProfile,
   getNearbyAmbulances,
-  getAmbulanceStats
+  getAmbulanceStats,
+  clockInShift,
+  clockOutShift,
+  getMyShift,
+  createShift,
+  getShiftRoster,
+  cancelShift,
+  getShiftReportController,
 };
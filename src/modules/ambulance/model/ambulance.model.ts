@@ -6,12 +6,26 @@ import {
   generateRefreshToken,
 } from "../../../shared/utils/auth.util.js"; // Ensure this path matches your folder structure
 
+// Vehicle / crew capability classes
+// BLS: Basic Life Support, ALS: Advanced Life Support, ICU: Mobile ICU, NEONATAL: Neonatal transport
+export const AMBULANCE_CAPABILITIES = ["BLS", "ALS", "ICU", "NEONATAL"] as const;
+export type AmbulanceCapability = (typeof AMBULANCE_CAPABILITIES)[number];
+
+// Which unit classes can serve a trip that requires a given capability
+export const CAPABILITY_SATISFIED_BY: Record<AmbulanceCapability, AmbulanceCapability[]> = {
+  BLS: ["BLS", "ALS", "ICU"],
+  ALS: ["ALS", "ICU"],
+  ICU: ["ICU"],
+  NEONATAL: ["NEONATAL"],
+};
+
 // 1. Define the TypeScript Interface
 export interface IAmbulance extends Document {
   driverName: string;
   driverPhone: string;
   password?: string;
   vehicleNumber: string;
+  capabilityClass: AmbulanceCapability;
   status: "ready" | "on-trip" | "offline"; // Strict status states
   location: {
     type: "Point";
@@ -52,6 +66,12 @@ const AmbulanceSchema = new Schema<IAmbulance>(
       trim: true,
       uppercase: true, // Auto-uppercase vehicle numbers (e.g., KA01AB1234)
     },
+    capabilityClass: {
+      type: String,
+      enum: AMBULANCE_CAPABILITIES,
+      default: "BLS",
+      required: true,
+    },
     status: {
       type: String,
       enum: ["ready", "on-trip", "offline"],
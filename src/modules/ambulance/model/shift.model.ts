@@ -0,0 +1,73 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// PLANNED (roster) → ACTIVE (clocked in) → COMPLETED (clocked out)
+// PLANNED → MISSED (never clocked in) or CANCELLED (removed from the roster)
+export const SHIFT_STATUSES = [
+  "PLANNED",
+  "ACTIVE",
+  "COMPLETED",
+  "MISSED",
+  "CANCELLED",
+] as const;
+export type ShiftStatus = (typeof SHIFT_STATUSES)[number];
+
+export interface IShift extends Document {
+  ambulanceId: mongoose.Types.ObjectId;
+  status: ShiftStatus;
+
+  // Roster (absent for shifts started without one)
+  plannedStart?: Date;
+  plannedEnd?: Date;
+
+  clockInAt?: Date;
+  clockOutAt?: Date;
+  clockInLocation?: [number, number]; // [lng, lat]
+  clockOutLocation?: [number, number];
+
+  createdBy: string; // "admin:ID" (roster) or "ambulance:ID" (unplanned clock-in)
+  notes?: string;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ShiftSchema = new Schema<IShift>(
+  {
+    ambulanceId: {
+      type: Schema.Types.ObjectId,
+      ref: "Ambulance",
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: SHIFT_STATUSES,
+      default: "PLANNED",
+    },
+
+    plannedStart: { type: Date },
+    plannedEnd: { type: Date },
+
+    clockInAt: { type: Date },
+    clockOutAt: { type: Date },
+    clockInLocation: { type: [Number], default: undefined },
+    clockOutLocation: { type: [Number], default: undefined },
+
+    createdBy: { type: String, required: true },
+    notes: { type: String, trim: true },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// At most one running shift per ambulance
+ShiftSchema.index(
+  { ambulanceId: 1 },
+  { unique: true, partialFilterExpression: { status: "ACTIVE" } }
+);
+// Roster and reports
+ShiftSchema.index({ ambulanceId: 1, plannedStart: 1 });
+ShiftSchema.index({ status: 1, plannedEnd: 1 });
+ShiftSchema.index({ clockInAt: 1 });
+
+export const Shift = mongoose.model<IShift>("Shift", ShiftSchema);
@@ -1,12 +1,13 @@
 import { Router } from "express";
 import { z } from "zod";
 import { validate } from "../../../shared/middlewares/validate.middleware.js";
-import { verifyAmbulanceJWT } from "../../../shared/middlewares/auth.middleware.js";
+import { verifyAmbulanceJWT, verifyAdminJWT } from "../../../shared/middlewares/auth.middleware.js";
 import {
   createAmbulanceSchema,
   ambulanceLoginSchema,
   updateStatusSchema,
   updateLocationSchema,
+  createShiftSchema,
 } from "../ambulance.dto/ambulance.dto.js";
 import {
   registerAmbulance,
@@ -17,6 +18,13 @@ import {
   getAmbulanceProfile,
   getNearbyAmbulances,
   getAmbulanceStats,
+  clockInShift,
+  clockOutShift,
+  getMyShift,
+  createShift,
+  getShiftRoster,
+  cancelShift,
+  getShiftReportController,
 } from "../controllers/ambulance.controller.js";
 
 const router = Router();
@@ -104,4 +112,66 @@ router.get("/me", verifyAmbulanceJWT, getAmbulanceProfile);
  */
 router.get("/stats", getAmbulanceStats);
 
+// ============================================
+// SHIFT ROUTES
+// ============================================
+
+/**
+ * @route   POST /api/v2/ambulance/shift/clock-in
+ * @desc    Start a shift (required before going ready)
+ * @access  Private
+ * @body    location (optional, [lng, lat])
+ */
+router.post("/shift/clock-in", verifyAmbulanceJWT, clockInShift);
+
+/**
+ * @route   POST /api/v2/ambulance/shift/clock-out
+ * @desc    End the running shift and go offline
+ * @access  Private
+ * @body    location (optional, [lng, lat])
+ */
+router.post("/shift/clock-out", verifyAmbulanceJWT, clockOutShift);
+
+/**
+ * @route   GET /api/v2/ambulance/shift
+ * @desc    Current shift, continuous duty hours and upcoming planned shifts
+ * @access  Private
+ */
+router.get("/shift", verifyAmbulanceJWT, getMyShift);
+
+/**
+ * @route   POST /api/v2/ambulance/admin/shifts
+ * @desc    Add a planned shift to the roster
+ * @access  Admin Only
+ */
+router.post(
+  "/admin/shifts",
+  verifyAdminJWT,
+  validate(z.object({ body: createShiftSchema })),
+  createShift
+);
+
+/**
+ * @route   GET /api/v2/ambulance/admin/shifts
+ * @desc    Shift roster for a period
+ * @access  Admin Only
+ * @query   from, to (default: next 7 days), ambulanceId, status (optional)
+ */
+router.get("/admin/shifts", verifyAdminJWT, getShiftRoster);
+
+/**
+ * @route   GET /api/v2/ambulance/admin/shifts/report
+ * @desc    Duty hours, missed / late shifts and overtime per ambulance
+ * @access  Admin Only
+ * @query   from, to (default: last 7 days), ambulanceId (optional)
+ */
+router.get("/admin/shifts/report", verifyAdminJWT, getShiftReportController);
+
+/**
+ * @route   DELETE /api/v2/ambulance/admin/shifts/:shiftId
+ * @desc    Remove a planned shift from the roster
+ * @access  Admin Only
+ */
+router.delete("/admin/shifts/:shiftId", verifyAdminJWT, cancelShift);
+
 export const ambulanceRoutes: ReturnType<typeof Router> = router;
@@ -1,8 +1,17 @@
 import redis from "../../../config/redis.js";
-import { Ambulance } from "../model/ambulance.model.js";
-import type { IAmbulance } from "../model/ambulance.model.js";
+import { Ambulance, CAPABILITY_SATISFIED_BY } from "../model/ambulance.model.js";
+import type { IAmbulance, AmbulanceCapability } from "../model/ambulance.model.js";
+import { getSearchConfig } from "../../region/services/region.service.js";
 import type { Types } from "mongoose";
+import { Shift } from "../model/shift.model.js";
+import {
+  AMBULANCE_STALE_THRESHOLD_SECONDS,
+  MAX_CONTINUOUS_DUTY_HOURS,
+} from "../../../config/env.js";
+import { getIO } from "../../../shared/infra/sockets/socket.config.js";
 const AMBULANCE_GEO_KEY = "ambulance_locations";
+// ambulanceId → last time (ms) the unit was heard from (socket connect, heartbeat, location)
+const AMBULANCE_LAST_SEEN_KEY = "ambulance_last_seen";
 
 export interface IAmbulanceLocation {
   type: "Point";
@@ -15,7 +24,7 @@ export interface IAmbulanceSyncPayload {
 }
 /**
  * Syncs the ambulance state with Redis.
- * - If status is 'ready': Adds to Redis GEO index.
+ * - If status is 'ready' and the crew is clocked in: Adds to Redis GEO index.
  * - If status is 'busy'/'offline': Removes from Redis GEO index.
  */
 const syncAmbulancetoRedis = async (
@@ -24,8 +33,12 @@ const syncAmbulancetoRedis = async (
   const { _id, status, location } = ambulance;
   const ambulanceId = _id.toString();
   try {
-    // Only 'ready' ambulances should be in the search pool
-    if (status === "ready" && location?.coordinates) {
+    // Only 'ready' ambulances on shift should be in the search pool
+    const onShift =
+      status === "ready" &&
+      !!(await Shift.exists({ ambulanceId: _id, status: "ACTIVE" }));
+
+    if (onShift && location?.coordinates) {
       const [lng, lat] = location.coordinates;
 
       // Validate coordinates before sending to Redis
@@ -36,13 +49,18 @@ const syncAmbulancetoRedis = async (
           longitude: lng,
           latitude: lat,
         });
+        // Entering the pool counts as being seen, the stale sweep starts from here
+        await redis.zAdd(AMBULANCE_LAST_SEEN_KEY, {
+          score: Date.now(),
+          value: ambulanceId,
+        });
         console.log(`Redis: Added ${ambulanceId} to active pool`);
       } else {
         console.warn(`Redis: Invalid coordinates for ${ambulanceId}`);
       }
     } else {
       // ZREM key member
-      // We remove them if they are 'offline' OR 'on-trip' (busy)
+      // We remove them if they are 'offline' OR 'on-trip' (busy) OR off shift
       await redis.zRem(AMBULANCE_GEO_KEY, ambulanceId);
       console.log(
         `Redis: Removed ${ambulanceId} from active pool (Status: ${status})`
@@ -59,6 +77,7 @@ const syncAmbulancetoRedis = async (
 const removeAmbulanceFromRedis = async (ambulanceId: string) => {
   try {
     await redis.zRem(AMBULANCE_GEO_KEY, ambulanceId);
+    await redis.zRem(AMBULANCE_LAST_SEEN_KEY, ambulanceId);
     console.log("Removed ambulance from redis");
   } catch (error) {
     console.error("Redis Removal Error:", error);
@@ -67,31 +86,61 @@ const removeAmbulanceFromRedis = async (ambulanceId: string) => {
 
 /**
  * Find nearby ambulances with automatic radius failover
- * Searches at: 5km → 10km → 17km → 30km
+ * Searches the radius ladder of the service region containing the point
+ * (default: 5km → 10km → 17km → 30km)
  * @param longitude - User's longitude
  * @param latitude - User's latitude
- * @param limit - Maximum number of results (default: 10)
+ * @param limit - Maximum number of results (default: the region's candidate count)
  * @returns Array of ambulances or empty array with message
  */
-interface NearbyAmbulanceResult {
+export interface NearbyAmbulanceResult {
   ambulanceId: string;
   distance: number // in meters
   ambulanceData: IAmbulance | null;
+  // true when no unit with the required capability was found and a lower class is returned instead
+  capabilityDowngraded: boolean;
+}
+
+interface FindNearbyAmbulancesOptions {
+  searchRadii?: number[];
+  requiredCapability?: AmbulanceCapability;
 }
 
+/**
+ * Check whether a unit of class `unitClass` can serve a trip requiring `required`
+ */
+const satisfiesCapability = (
+  unitClass: AmbulanceCapability | undefined,
+  required: AmbulanceCapability
+): boolean => {
+  return CAPABILITY_SATISFIED_BY[required].includes(unitClass ?? "BLS");
+};
+
 /**
  * Find nearby ambulances with automatic radius failover
  * 1. Uses `geoSearchWith` to ensure we get distance data.
  * 2. Uses `COUNT: limit` to optimize Redis performance.
  * 3. Uses `SORT: "ASC"` to get nearest drivers first.
+ * 4. With `requiredCapability`, only units that satisfy it are returned. If none exist
+ *    in any radius, the nearest units are returned with `capabilityDowngraded: true`.
  */
 const findNearbyAmbulances = async (
   longitude: number,
   latitude: number,
-  limit: number = 10
+  limit?: number,
+  options: FindNearbyAmbulancesOptions = {}
 ): Promise<NearbyAmbulanceResult[]> => {
-  // Define search radii in kilometers: 5 → 10 → 17 → 30
-  const searchRadii = [5, 10, 17, 30];
+  // Radius ladder and candidate count come from the pickup's region (callers may widen it)
+  const searchConfig =
+    options.searchRadii && limit !== undefined
+      ? null
+      : await getSearchConfig(longitude, latitude, "ambulance");
+  const searchRadii = options.searchRadii ?? searchConfig?.radiiKm ?? [];
+  const maxResults = limit ?? searchConfig?.candidateCount ?? 10;
+  const { requiredCapability } = options;
+
+  // Nearest units of any class, used only if nobody satisfies the requirement
+  let downgradeFallback: NearbyAmbulanceResult[] = [];
 
   console.log(`🔍 Searching for ambulances near (${longitude}, ${latitude})`);
 
@@ -107,7 +156,7 @@ const findNearbyAmbulances = async (
         ["WITHDIST", "WITHCOORD"], // what info you want back
         {
           SORT: "ASC", // nearest first
-          COUNT: limit,
+          COUNT: requiredCapability ? maxResults * 3 : maxResults, // Get more to account for filtering
         }
       );
 
@@ -115,9 +164,20 @@ const findNearbyAmbulances = async (
         // Extract ambulance IDs from Redis results
         const ambulanceIds = results.map((result) => result.member);
 
+        // Crews past the continuous duty limit get no new offers
+        const rested = await Shift.find({
+          ambulanceId: { $in: ambulanceIds },
+          status: "ACTIVE",
+          clockInAt: {
+            $gt: new Date(Date.now() - MAX_CONTINUOUS_DUTY_HOURS * 60 * 60 * 1000),
+          },
+        })
+          .select("ambulanceId")
+          .lean();
+
         // Fetch full ambulance data from MongoDB
         const ambulances = await Ambulance.find({
-          _id: { $in: ambulanceIds },
+          _id: { $in: rested.map((shift) => shift.ambulanceId) },
           status: "ready",
         }).select("-password -refreshToken");
 
@@ -132,14 +192,31 @@ const findNearbyAmbulances = async (
             ambulanceId: result.member,
             distance: result.distance ? Math.round(parseFloat(result.distance) * 1000) : 0, // Convert km string to meters
             ambulanceData: ambulanceMap.get(result.member) || null,
+            capabilityDowngraded: false,
           }))
           .filter((result) => result.ambulanceData !== null);
 
-        if (nearbyAmbulances.length > 0) {
+        const matching = requiredCapability
+          ? nearbyAmbulances.filter((result) =>
+              satisfiesCapability(
+                result.ambulanceData?.capabilityClass,
+                requiredCapability
+              )
+            )
+          : nearbyAmbulances;
+
+        if (matching.length > 0) {
           console.log(
-            `✅ Found ${nearbyAmbulances.length} ambulance(s) at ${radius}km`
+            `✅ Found ${matching.length} ambulance(s) at ${radius}km`
           );
-          return nearbyAmbulances;
+          return matching.slice(0, maxResults);
+        }
+
+        if (downgradeFallback.length === 0 && nearbyAmbulances.length > 0) {
+          downgradeFallback = nearbyAmbulances.slice(0, maxResults).map((result) => ({
+            ...result,
+            capabilityDowngraded: true,
+          }));
         }
       }
 
@@ -149,10 +226,106 @@ const findNearbyAmbulances = async (
     }
   }
 
-  console.log(`❌ No ambulances found within 30km`);
+  if (downgradeFallback.length > 0) {
+    console.warn(
+      `⚠️ No ${requiredCapability} unit available, falling back to ${downgradeFallback.length} lower class unit(s)`
+    );
+    return downgradeFallback;
+  }
+
+  console.log(
+    `❌ No ambulances found within ${searchRadii[searchRadii.length - 1]}km`
+  );
   return [];
 };
 
+/**
+ * Record that an ambulance is still connected (last-seen heartbeat)
+ */
+const recordAmbulanceHeartbeat = async (ambulanceId: string): Promise<void> => {
+  try {
+    await redis.zAdd(AMBULANCE_LAST_SEEN_KEY, {
+      score: Date.now(),
+      value: ambulanceId,
+    });
+  } catch (error) {
+    console.error("Redis Heartbeat Error:", error);
+  }
+};
+
+/**
+ * Evict ready ambulances that have not been heard from in AMBULANCE_STALE_THRESHOLD_SECONDS
+ * (run periodically by the dispatch worker)
+ * 1. Pool members without a heartbeat (e.g. added before a restart) get one now as a grace period
+ * 2. Stale pool members are removed from the geo pool and marked offline in MongoDB
+ * 3. Admins get an ambulance_stale alert per evicted unit
+ * @returns ids of the evicted ambulances
+ */
+const evictStaleAmbulances = async (): Promise<string[]> => {
+  const now = Date.now();
+
+  const poolMembers = await redis.zRange(AMBULANCE_GEO_KEY, 0, -1);
+  if (poolMembers.length > 0) {
+    await redis.zAdd(
+      AMBULANCE_LAST_SEEN_KEY,
+      poolMembers.map((member) => ({ score: now, value: member })),
+      { condition: "NX" }
+    );
+  }
+
+  const cutoff = now - AMBULANCE_STALE_THRESHOLD_SECONDS * 1000;
+  const staleIds = await redis.zRangeByScore(AMBULANCE_LAST_SEEN_KEY, 0, cutoff);
+
+  const evicted: string[] = [];
+
+  for (const ambulanceId of staleIds) {
+    try {
+      const lastSeen = await redis.zScore(AMBULANCE_LAST_SEEN_KEY, ambulanceId);
+      // A heartbeat arrived since the range query: the unit is alive
+      if (lastSeen !== null && lastSeen > cutoff) continue;
+
+      const removed = await redis.zRem(AMBULANCE_GEO_KEY, ambulanceId);
+      await redis.zRem(AMBULANCE_LAST_SEEN_KEY, ambulanceId);
+
+      // Not in the pool (on a trip / already offline): nothing to evict
+      if (removed === 0) continue;
+
+      // Only a unit still "ready" goes offline (it may have just been claimed for a trip)
+      const ambulance = await Ambulance.findOneAndUpdate(
+        { _id: ambulanceId, status: "ready" },
+        { status: "offline" },
+        { new: true }
+      ).select("driverName vehicleNumber capabilityClass location");
+
+      evicted.push(ambulanceId);
+
+      console.log(
+        `💤 Evicted stale ambulance ${ambulanceId} (last seen ${lastSeen ? new Date(lastSeen).toISOString() : "never"})`
+      );
+
+      try {
+        getIO().to("admin-room").emit("ambulance_stale", {
+          ambulanceId,
+          driverName: ambulance?.driverName,
+          vehicleNumber: ambulance?.vehicleNumber,
+          capabilityClass: ambulance?.capabilityClass,
+          lastLocation: ambulance?.location,
+          lastSeenAt: lastSeen ? new Date(lastSeen).toISOString() : null,
+          thresholdSeconds: AMBULANCE_STALE_THRESHOLD_SECONDS,
+          markedOffline: !!ambulance,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (socketError) {
+        console.error("Socket emission error:", socketError);
+      }
+    } catch (error) {
+      console.error(`Stale eviction error for ambulance ${ambulanceId}:`, error);
+    }
+  }
+
+  return evicted;
+};
+
 /**
  * Get ambulance count in Redis (for debugging/monitoring)
  */
@@ -182,7 +355,10 @@ const getAllActiveAmbulanceIds = async (): Promise<string[]> => {
 export {
   syncAmbulancetoRedis,
   removeAmbulanceFromRedis,
+  recordAmbulanceHeartbeat,
+  evictStaleAmbulances,
   findNearbyAmbulances,
+  satisfiesCapability,
   getActiveAmbulanceCount,
   getAllActiveAmbulanceIds,
 };
@@ -0,0 +1,403 @@
+import mongoose from "mongoose";
+import { Shift } from "../model/shift.model.js";
+import type { IShift, ShiftStatus } from "../model/shift.model.js";
+import { Ambulance } from "../model/ambulance.model.js";
+import { Trip } from "../../trip/model/trip.model.js";
+import { ApiError } from "../../../shared/utils/ApiError.js";
+import {
+  MAX_CONTINUOUS_DUTY_HOURS,
+  SHIFT_CLOCK_IN_GRACE_MINUTES,
+} from "../../../config/env.js";
+import { removeAmbulanceFromRedis } from "./ambulance.service.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface DutyStatus {
+  onShift: boolean;
+  shift: IShift | null;
+  continuousDutyHours: number;
+  maxContinuousDutyHours: number;
+  fatigued: boolean; // Over the limit: no new trip offers until clocked out
+  dutyLimitAt: Date | null; // When the running shift reaches the limit
+}
+
+export interface ShiftReportRow {
+  ambulanceId: string;
+  driverName: string | null;
+  vehicleNumber: string | null;
+  shiftsWorked: number;
+  shiftsMissed: number;
+  dutyHours: number;
+  plannedHours: number;
+  overtimeHours: number; // Worked past plannedEnd
+  lateClockIns: number; // Clocked in later than plannedStart + grace
+  unplannedShifts: number; // Clocked in without a roster entry
+  longestShiftHours: number;
+  dutyLimitExceeded: number; // Shifts longer than MAX_CONTINUOUS_DUTY_HOURS
+  tripsCompleted: number;
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const hoursBetween = (from: Date, to: Date): number =>
+  Math.max(to.getTime() - from.getTime(), 0) / HOUR_MS;
+
+/**
+ * Get the running shift of an ambulance (null when off shift)
+ */
+const getActiveShift = async (ambulanceId: string): Promise<IShift | null> => {
+  return Shift.findOne({ ambulanceId, status: "ACTIVE" });
+};
+
+/**
+ * On-shift state and continuous duty time of an ambulance crew
+ */
+const getDutyStatus = async (ambulanceId: string): Promise<DutyStatus> => {
+  const shift = await getActiveShift(ambulanceId);
+  const continuousDutyHours = shift?.clockInAt
+    ? hoursBetween(shift.clockInAt, new Date())
+    : 0;
+
+  return {
+    onShift: !!shift,
+    shift,
+    continuousDutyHours: round2(continuousDutyHours),
+    maxContinuousDutyHours: MAX_CONTINUOUS_DUTY_HOURS,
+    fatigued: continuousDutyHours >= MAX_CONTINUOUS_DUTY_HOURS,
+    dutyLimitAt: shift?.clockInAt
+      ? new Date(shift.clockInAt.getTime() + MAX_CONTINUOUS_DUTY_HOURS * HOUR_MS)
+      : null,
+  };
+};
+
+/**
+ * Planned shifts whose end has passed without a clock-in become MISSED
+ * Run by the recurring stale ambulance sweep (dispatch worker)
+ */
+const markMissedShifts = async (): Promise<number> => {
+  const result = await Shift.updateMany(
+    { status: "PLANNED", plannedEnd: { $lt: new Date() } },
+    { $set: { status: "MISSED" } }
+  );
+  return result.modifiedCount;
+};
+
+/**
+ * Start a shift
+ * Uses the ambulance's planned shift if one covers now (clock-in allowed up to
+ * SHIFT_CLOCK_IN_GRACE_MINUTES early), otherwise starts an unplanned shift.
+ */
+const clockIn = async (
+  ambulanceId: string,
+  location?: [number, number]
+): Promise<IShift> => {
+  const now = new Date();
+
+  if (await Shift.exists({ ambulanceId, status: "ACTIVE" })) {
+    throw new ApiError(409, "Already clocked in");
+  }
+
+  const clockInData = {
+    status: "ACTIVE" as ShiftStatus,
+    clockInAt: now,
+    ...(location && { clockInLocation: location }),
+  };
+
+  try {
+    const planned = await Shift.findOneAndUpdate(
+      {
+        ambulanceId,
+        status: "PLANNED",
+        plannedStart: {
+          $lte: new Date(now.getTime() + SHIFT_CLOCK_IN_GRACE_MINUTES * 60 * 1000),
+        },
+        plannedEnd: { $gt: now },
+      },
+      { $set: clockInData },
+      { new: true, sort: { plannedStart: 1 } }
+    );
+
+    const shift =
+      planned ??
+      (await Shift.create({
+        ambulanceId,
+        ...clockInData,
+        createdBy: `ambulance:${ambulanceId}`,
+      }));
+
+    console.log(
+      `🕐 Ambulance ${ambulanceId} clocked in (${planned ? "planned" : "unplanned"} shift ${shift._id})`
+    );
+
+    return shift;
+  } catch (error: any) {
+    // Unique index on the running shift: a parallel clock-in won
+    if (error?.code === 11000) {
+      throw new ApiError(409, "Already clocked in");
+    }
+    throw error;
+  }
+};
+
+/**
+ * End the running shift; the unit leaves the dispatch pool and goes offline
+ */
+const clockOut = async (
+  ambulanceId: string,
+  location?: [number, number]
+): Promise<IShift> => {
+  const ambulance = await Ambulance.findById(ambulanceId).select("status");
+  if (!ambulance) {
+    throw new ApiError(404, "Ambulance not found");
+  }
+
+  if (ambulance.status === "on-trip") {
+    throw new ApiError(409, "Finish the current trip before clocking out");
+  }
+
+  const shift = await Shift.findOneAndUpdate(
+    { ambulanceId, status: "ACTIVE" },
+    {
+      $set: {
+        status: "COMPLETED",
+        clockOutAt: new Date(),
+        ...(location && { clockOutLocation: location }),
+      },
+    },
+    { new: true }
+  );
+
+  if (!shift) {
+    throw new ApiError(404, "No active shift to clock out of");
+  }
+
+  await Ambulance.updateOne(
+    { _id: ambulanceId, status: "ready" },
+    { $set: { status: "offline" } }
+  );
+  await removeAmbulanceFromRedis(ambulanceId);
+
+  console.log(`🕐 Ambulance ${ambulanceId} clocked out (shift ${shift._id})`);
+
+  return shift;
+};
+
+/**
+ * Add a planned shift to the roster (no overlap with the unit's other planned/running shifts)
+ */
+const createRosterShift = async (
+  input: {
+    ambulanceId: string;
+    plannedStart: Date;
+    plannedEnd: Date;
+    notes?: string;
+  },
+  createdBy: string
+): Promise<IShift> => {
+  const { ambulanceId, plannedStart, plannedEnd, notes } = input;
+
+  if (plannedEnd.getTime() <= Date.now()) {
+    throw new ApiError(400, "Planned shift must end in the future");
+  }
+
+  if (!(await Ambulance.exists({ _id: ambulanceId }))) {
+    throw new ApiError(404, "Ambulance not found");
+  }
+
+  const overlapping = await Shift.exists({
+    ambulanceId,
+    status: { $in: ["PLANNED", "ACTIVE"] },
+    plannedStart: { $lt: plannedEnd },
+    plannedEnd: { $gt: plannedStart },
+  });
+  if (overlapping) {
+    throw new ApiError(409, "Ambulance already has a shift in this period");
+  }
+
+  return Shift.create({
+    ambulanceId,
+    status: "PLANNED",
+    plannedStart,
+    plannedEnd,
+    createdBy,
+    ...(notes && { notes }),
+  });
+};
+
+/**
+ * Remove a planned shift from the roster
+ */
+const cancelRosterShift = async (shiftId: string): Promise<IShift> => {
+  const shift = await Shift.findOneAndUpdate(
+    { _id: shiftId, status: "PLANNED" },
+    { $set: { status: "CANCELLED" } },
+    { new: true }
+  );
+
+  if (!shift) {
+    const exists = await Shift.exists({ _id: shiftId });
+    if (!exists) {
+      throw new ApiError(404, "Shift not found");
+    }
+    throw new ApiError(409, "Only planned shifts can be cancelled");
+  }
+
+  return shift;
+};
+
+/**
+ * Shifts overlapping a period (planned window or actual clock-in/out), earliest first
+ */
+const getRoster = async (options: {
+  from: Date;
+  to: Date;
+  ambulanceId?: string;
+  status?: ShiftStatus;
+}): Promise<IShift[]> => {
+  const { from, to, ambulanceId, status } = options;
+
+  return Shift.find({
+    ...(ambulanceId && { ambulanceId }),
+    ...(status && { status }),
+    $or: [
+      { plannedStart: { $lt: to }, plannedEnd: { $gt: from } },
+      {
+        clockInAt: { $lt: to },
+        $or: [{ clockOutAt: { $gt: from } }, { clockOutAt: null }],
+      },
+    ],
+  })
+    .sort({ plannedStart: 1, clockInAt: 1 })
+    .populate("ambulanceId", "driverName vehicleNumber capabilityClass");
+};
+
+/**
+ * Duty hours per ambulance over a period
+ * Worked shifts are the ones clocked in within the period (a running shift counts up to now),
+ * missed shifts the ones planned to start within it.
+ */
+const getShiftReport = async (options: {
+  from: Date;
+  to: Date;
+  ambulanceId?: string;
+}): Promise<ShiftReportRow[]> => {
+  const { from, to, ambulanceId } = options;
+  const now = new Date();
+
+  const shifts = await Shift.find({
+    ...(ambulanceId && { ambulanceId }),
+    $or: [
+      { clockInAt: { $gte: from, $lt: to } },
+      { status: "MISSED", plannedStart: { $gte: from, $lt: to } },
+    ],
+  }).lean();
+
+  const tripCounts = await Trip.aggregate<{ _id: mongoose.Types.ObjectId; count: number }>([
+    {
+      $match: {
+        status: "COMPLETED",
+        completedAt: { $gte: from, $lt: to },
+        ...(ambulanceId && {
+          ambulanceId: new mongoose.Types.ObjectId(ambulanceId),
+        }),
+      },
+    },
+    { $group: { _id: "$ambulanceId", count: { $sum: 1 } } },
+  ]);
+  const tripsByAmbulance = new Map(
+    tripCounts.map((row) => [row._id?.toString(), row.count])
+  );
+
+  const rows = new Map<string, ShiftReportRow>();
+  const rowFor = (id: string): ShiftReportRow => {
+    const row = rows.get(id) ?? {
+      ambulanceId: id,
+      driverName: null,
+      vehicleNumber: null,
+      shiftsWorked: 0,
+      shiftsMissed: 0,
+      dutyHours: 0,
+      plannedHours: 0,
+      overtimeHours: 0,
+      lateClockIns: 0,
+      unplannedShifts: 0,
+      longestShiftHours: 0,
+      dutyLimitExceeded: 0,
+      tripsCompleted: tripsByAmbulance.get(id) ?? 0,
+    };
+    rows.set(id, row);
+    return row;
+  };
+
+  for (const shift of shifts) {
+    const row = rowFor(shift.ambulanceId.toString());
+
+    if (shift.plannedStart && shift.plannedEnd) {
+      row.plannedHours += hoursBetween(shift.plannedStart, shift.plannedEnd);
+    }
+
+    if (shift.status === "MISSED") {
+      row.shiftsMissed += 1;
+      continue;
+    }
+    if (!shift.clockInAt) continue;
+
+    const end = shift.clockOutAt ?? now;
+    const hours = hoursBetween(shift.clockInAt, end);
+
+    row.shiftsWorked += 1;
+    row.dutyHours += hours;
+    row.longestShiftHours = Math.max(row.longestShiftHours, hours);
+    if (hours > MAX_CONTINUOUS_DUTY_HOURS) row.dutyLimitExceeded += 1;
+
+    if (!shift.plannedStart || !shift.plannedEnd) {
+      row.unplannedShifts += 1;
+      continue;
+    }
+    if (
+      shift.clockInAt.getTime() >
+      shift.plannedStart.getTime() + SHIFT_CLOCK_IN_GRACE_MINUTES * 60 * 1000
+    ) {
+      row.lateClockIns += 1;
+    }
+    row.overtimeHours += hoursBetween(shift.plannedEnd, end);
+  }
+
+  // Units that completed trips without any shift in the period still show up
+  for (const id of tripsByAmbulance.keys()) {
+    if (id) rowFor(id);
+  }
+
+  const ambulances = await Ambulance.find({ _id: { $in: [...rows.keys()] } })
+    .select("driverName vehicleNumber")
+    .lean();
+  for (const ambulance of ambulances) {
+    const row = rows.get(ambulance._id.toString());
+    if (row) {
+      row.driverName = ambulance.driverName;
+      row.vehicleNumber = ambulance.vehicleNumber;
+    }
+  }
+
+  return [...rows.values()]
+    .map((row) => ({
+      ...row,
+      dutyHours: round2(row.dutyHours),
+      plannedHours: round2(row.plannedHours),
+      overtimeHours: round2(row.overtimeHours),
+      longestShiftHours: round2(row.longestShiftHours),
+    }))
+    .sort((a, b) => b.dutyHours - a.dutyHours);
+};
+
+export {
+  getActiveShift,
+  getDutyStatus,
+  markMissedShifts,
+  clockIn,
+  clockOut,
+  createRosterShift,
+  cancelRosterShift,
+  getRoster,
+  getShiftReport,
+};
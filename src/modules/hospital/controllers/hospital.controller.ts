@@ -3,12 +3,40 @@ import { ApiError } from "../../../shared/utils/ApiError.js";
 import { ApiResponse } from "../../../shared/utils/ApiResponce.js";
 import { createHospitalSchema } from "../hospital.dto/hospital.dto.js";
 import type { Request, Response } from "express";
-import { Hospital } from "../model/hospital.model.js";
+import mongoose from "mongoose";
+import { Hospital, HOSPITAL_SPECIALTIES } from "../model/hospital.model.js";
+import type { HospitalSpecialty } from "../model/hospital.model.js";
 import { NODE_ENV } from "../../../config/env.js";
 import { hospitalLoginSchema } from "../hospital.dto/hospital.dto.js";
+import { respondIncomingPatientSchema } from "../hospital.dto/hospital.dto.js";
+import { setDiversionSchema } from "../hospital.dto/hospital.dto.js";
+import { updateSpecialtiesSchema } from "../hospital.dto/hospital.dto.js";
+import { reservationListQuerySchema } from "../hospital.dto/hospital.dto.js";
+import { consumeReservationSchema } from "../hospital.dto/hospital.dto.js";
+import { hospitalTripHistoryQuerySchema } from "../hospital.dto/hospital.dto.js";
+import {
+  inventoryHistoryQuerySchema,
+  inventoryTimeSeriesQuerySchema,
+} from "../hospital.dto/hospital.dto.js";
 import { findNearbyHospitals } from "../services/hospital.service.js";
+import { rankHospitals } from "../services/hospital.scoring.js";
 import { SyncHospitalToRedis } from "../services/hospital.service.js";
 import { removeHospitalFromRedis } from "../services/hospital.service.js";
+import { respondToIncomingPatient } from "../services/hospital.handshake.js";
+import { setHospitalDiversion } from "../services/hospital.diversion.js";
+import {
+  getIncomingTrips,
+  getHospitalTripHistory,
+} from "../services/hospital.trips.js";
+import {
+  getHospitalReservations,
+  consumeBloodReservation,
+} from "../services/reservation.service.js";
+import {
+  applyInventoryChange,
+  getInventoryHistory,
+  getInventoryTimeSeries,
+} from "../services/inventory.service.js";
 
 /**
  * @description Register a new hospital
@@ -24,7 +52,7 @@ const registerHospital = asyncHandler(async (req: Request, res: Response) => {
     throw new ApiError(400, "Validation failed", validationResult.error.issues);
   }
 
-  const { name, email, location, phone, password, inventory, address } =
+  const { name, email, location, phone, password, inventory, address, specialties } =
     validationResult.data;
 
   // Checking Hospital Existance
@@ -49,6 +77,7 @@ const registerHospital = asyncHandler(async (req: Request, res: Response) => {
     password,
     address,
     location,
+    ...(specialties && { specialties: [...new Set(specialties)] }),
     inventory: inventory || {
       beds: { total: 0, available: 0 },
       bloodStock: {
@@ -253,7 +282,7 @@ const updateHospitalInventory = asyncHandler(
       throw new ApiError(401, "Unauthorized");
     }
 
-    const { beds, bloodStock } = req.body;
+    const { beds, bloodStock, reason } = req.body;
 
     // Build update object dynamically
     const updateData: any = {};
@@ -263,12 +292,18 @@ const updateHospitalInventory = asyncHandler(
         updateData["inventory.beds.total"] = beds.total;
       }
       if (beds.available !== undefined) {
-        // Validate available doesn't exceed total
+        // Validate available (plus beds held for incoming trips) doesn't exceed total
         const hospital = await Hospital.findById(hospitalId);
         const total = beds.total ?? hospital?.inventory.beds.total ?? 0;
-
-        if (beds.available > total) {
-          throw new ApiError(400, "Available beds cannot exceed total beds");
+        const reserved = hospital?.inventory.beds.reserved ?? 0;
+
+        if (beds.available + reserved > total) {
+          throw new ApiError(
+            400,
+            reserved > 0
+              ? `Available beds cannot exceed total beds minus ${reserved} reserved`
+              : "Available beds cannot exceed total beds"
+          );
         }
         updateData["inventory.beds.available"] = beds.available;
       }
@@ -282,17 +317,24 @@ const updateHospitalInventory = asyncHandler(
       });
     }
 
-    // Update hospital
-    const hospital = await Hospital.findByIdAndUpdate(
-      hospitalId,
+    // Update hospital (the change is recorded in the inventory history)
+    const changes = await applyInventoryChange(
+      { _id: hospitalId },
       { $set: updateData },
-      { new: true, runValidators: true }
-    ).select("-password -refreshToken");
+      {
+        changedBy: `hospital:${hospitalId}`,
+        ...(typeof reason === "string" && reason.trim() && { reason: reason.trim() }),
+      }
+    );
 
-    if (!hospital) {
+    if (!changes) {
       throw new ApiError(404, "Hospital not found");
     }
 
+    const hospital = await Hospital.findById(hospitalId).select(
+      "-password -refreshToken"
+    );
+
     res
       .status(200)
       .json(
@@ -354,6 +396,164 @@ const updateHospitalLocation = asyncHandler(
   }
 );
 
+/**
+ * @description Get the hospital's inventory change history (who, when, old → new, reason)
+ * @route GET /api/v2/hospital/inventory/history
+ * @access Private (Hospital)
+ */
+const getMyInventoryHistory = asyncHandler(
+  async (req: Request, res: Response) => {
+    const hospitalId = (req as any).hospital?._id;
+
+    if (!hospitalId) {
+      throw new ApiError(401, "Unauthorized");
+    }
+
+    const validationResult = inventoryHistoryQuerySchema.safeParse(req.query);
+    if (!validationResult.success) {
+      throw new ApiError(400, "Validation failed", validationResult.error.issues);
+    }
+
+    const { from, to, field, limit } = validationResult.data;
+
+    const history = await getInventoryHistory(hospitalId.toString(), {
+      ...(from && { from }),
+      ...(to && { to }),
+      ...(field && { field }),
+      limit,
+    });
+
+    res.status(200).json(
+      new ApiResponse(
+        200,
+        { count: history.length, history },
+        "Inventory history fetched successfully"
+      )
+    );
+  }
+);
+
+/**
+ * @description Bed occupancy and blood stock over time, per hospital or region
+ * @route GET /api/v2/hospital/admin/inventory/timeseries
+ * @access Private (Admin)
+ */
+const getInventoryTimeSeriesForAdmin = asyncHandler(
+  async (req: Request, res: Response) => {
+    const validationResult = inventoryTimeSeriesQuerySchema.safeParse(req.query);
+    if (!validationResult.success) {
+      throw new ApiError(400, "Validation failed", validationResult.error.issues);
+    }
+
+    const { from, to, interval, groupBy, hospitalId, regionId } =
+      validationResult.data;
+
+    if (hospitalId && !mongoose.Types.ObjectId.isValid(hospitalId)) {
+      throw new ApiError(400, "Invalid hospital ID");
+    }
+    if (regionId && !mongoose.Types.ObjectId.isValid(regionId)) {
+      throw new ApiError(400, "Invalid region ID");
+    }
+
+    const series = await getInventoryTimeSeries({
+      from,
+      to,
+      interval,
+      groupBy,
+      ...(hospitalId && { hospitalId }),
+      ...(regionId && { regionId }),
+    });
+
+    res.status(200).json(
+      new ApiResponse(
+        200,
+        { from, to, interval, groupBy, series },
+        "Inventory time series fetched successfully"
+      )
+    );
+  }
+);
+
+/**
+ * @description Replace the hospital's specialty / department list
+ * @route PATCH /api/v2/hospital/specialties
+ * @access Private (Hospital)
+ */
+const updateHospitalSpecialties = asyncHandler(
+  async (req: Request, res: Response) => {
+    const hospitalId = (req as any).hospital?._id;
+
+    if (!hospitalId) {
+      throw new ApiError(401, "Unauthorized");
+    }
+
+    const validationResult = updateSpecialtiesSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      throw new ApiError(400, "Validation failed", validationResult.error.issues);
+    }
+
+    const hospital = await Hospital.findByIdAndUpdate(
+      hospitalId,
+      { $set: { specialties: [...new Set(validationResult.data.specialties)] } },
+      { new: true, runValidators: true }
+    ).select("-password -refreshToken");
+
+    if (!hospital) {
+      throw new ApiError(404, "Hospital not found");
+    }
+
+    res
+      .status(200)
+      .json(
+        new ApiResponse(
+          200,
+          hospital,
+          "Hospital specialties updated successfully"
+        )
+      );
+  }
+);
+
+/**
+ * @description Turn diversion on (trauma or full) or off, with an optional expiry
+ * @route PATCH /api/v2/hospital/diversion
+ * @access Private (Hospital)
+ */
+const updateHospitalDiversion = asyncHandler(
+  async (req: Request, res: Response) => {
+    const hospitalId = (req as any).hospital?._id;
+
+    if (!hospitalId) {
+      throw new ApiError(401, "Unauthorized");
+    }
+
+    const validationResult = setDiversionSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      throw new ApiError(400, "Validation failed", validationResult.error.issues);
+    }
+
+    const { status, reason, expiresAt } = validationResult.data;
+
+    const hospital = await setHospitalDiversion(hospitalId.toString(), {
+      status,
+      ...(reason && { reason }),
+      ...(expiresAt && { expiresAt }),
+    });
+
+    res
+      .status(200)
+      .json(
+        new ApiResponse(
+          200,
+          hospital.diversion,
+          status === "OPEN"
+            ? "Hospital is open for ambulances"
+            : "Hospital diversion updated successfully"
+        )
+      );
+  }
+);
+
 const bloodTypeMapping: Record<string, string> = {
   "A+": "A_positive",
   "A-": "A_negative",
@@ -367,7 +567,7 @@ const bloodTypeMapping: Record<string, string> = {
 
 const getNearbyHospitals = asyncHandler(
   async (req: Request, res: Response) => {
-    let { longitude, latitude, limit, bloodType, requireBeds } = req.query;
+    let { longitude, latitude, limit, bloodType, requireBeds, specialty } = req.query;
 
     // Validate required parameters
     if (!longitude || !latitude) {
@@ -380,7 +580,8 @@ const getNearbyHospitals = asyncHandler(
     // Parse and validate values
     const lng = parseFloat(longitude as string);
     const lat = parseFloat(latitude as string);
-    const maxResults = limit ? parseInt(limit as string, 10) : 10;
+    // Without a limit, the service region's candidate count is used
+    const maxResults = limit ? parseInt(limit as string, 10) : undefined;
 
     // Validate ranges
     if (isNaN(lng) || lng < -180 || lng > 180) {
@@ -394,7 +595,10 @@ const getNearbyHospitals = asyncHandler(
       throw new ApiError(400, "Invalid latitude. Must be between -90 and 90");
     }
 
-    if (isNaN(maxResults) || maxResults <= 0 || maxResults > 50) {
+    if (
+      maxResults !== undefined &&
+      (isNaN(maxResults) || maxResults <= 0 || maxResults > 50)
+    ) {
       throw new ApiError(400, "Invalid limit. Must be between 1 and 50");
     }
 
@@ -424,6 +628,16 @@ const getNearbyHospitals = asyncHandler(
       filters.requireBeds = true;
     }
 
+    if (specialty) {
+      if (!HOSPITAL_SPECIALTIES.includes(specialty as HospitalSpecialty)) {
+        throw new ApiError(
+          400,
+          `Invalid specialty. Must be one of ${HOSPITAL_SPECIALTIES.join(", ")}`
+        );
+      }
+      filters.specialty = specialty;
+    }
+
     // Find nearby hospitals
     // Ensure findNearbyHospitals uses 'filters.bloodType' to check 'inventory.bloodStock[filters.bloodType]'
     const hospitals = await findNearbyHospitals(lng, lat, maxResults, filters);
@@ -444,13 +658,19 @@ const getNearbyHospitals = asyncHandler(
       );
     }
 
+    // Rank by score (travel time, free beds, blood units, specialty, incoming load)
+    const rankedHospitals = await rankHospitals([lng, lat], hospitals, {
+      ...(filters.bloodType && { bloodType: filters.bloodType }),
+      ...(filters.specialty && { requiredSpecialty: filters.specialty }),
+    });
+
     // Return found hospitals
     res.status(200).json(
       new ApiResponse(
         200,
         {
-          count: hospitals.length,
-          hospitals: hospitals,
+          count: rankedHospitals.length,
+          hospitals: rankedHospitals,
         },
         `Found ${hospitals.length} nearby hospital(s)`
       )
@@ -458,6 +678,181 @@ const getNearbyHospitals = asyncHandler(
   }
 );
 
+/**
+ * @description Get the hospital's reservations (held for incoming trips by default)
+ * @route GET /api/v2/hospital/reservations
+ * @access Private (Hospital)
+ */
+const getMyReservations = asyncHandler(async (req: Request, res: Response) => {
+  const hospitalId = (req as any).hospital?._id;
+
+  if (!hospitalId) {
+    throw new ApiError(401, "Unauthorized");
+  }
+
+  const validationResult = reservationListQuerySchema.safeParse(req.query);
+  if (!validationResult.success) {
+    throw new ApiError(400, "Validation failed", validationResult.error.issues);
+  }
+
+  const { status, type } = validationResult.data;
+
+  const reservations = await getHospitalReservations(hospitalId.toString(), {
+    ...(status && { status }),
+    ...(type && { type }),
+  });
+
+  res.status(200).json(
+    new ApiResponse(
+      200,
+      { count: reservations.length, reservations },
+      "Reservations fetched successfully"
+    )
+  );
+});
+
+/**
+ * @description Record the blood units actually used for a held blood reservation
+ * @route POST /api/v2/hospital/reservations/:reservationId/consume
+ * @access Private (Hospital)
+ */
+const consumeReservation = asyncHandler(async (req: Request, res: Response) => {
+  const hospitalId = (req as any).hospital?._id;
+
+  if (!hospitalId) {
+    throw new ApiError(401, "Unauthorized");
+  }
+
+  const { reservationId } = req.params;
+  if (!reservationId || !mongoose.Types.ObjectId.isValid(reservationId as string)) {
+    throw new ApiError(400, "Invalid reservation ID");
+  }
+
+  const validationResult = consumeReservationSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    throw new ApiError(400, "Validation failed", validationResult.error.issues);
+  }
+
+  const reservation = await consumeBloodReservation(
+    reservationId as string,
+    hospitalId.toString(),
+    validationResult.data.unitsUsed,
+    `hospital:${hospitalId}`
+  );
+
+  res
+    .status(200)
+    .json(new ApiResponse(200, reservation, "Blood consumption recorded"));
+});
+
+/**
+ * @description Accept or decline an incoming patient (pre-arrival handshake)
+ * @route POST /api/v2/hospital/trips/:tripId/respond
+ * @access Private (Hospital)
+ */
+const respondToIncomingTrip = asyncHandler(
+  async (req: Request, res: Response) => {
+    const hospitalId = (req as any).hospital?._id;
+
+    if (!hospitalId) {
+      throw new ApiError(401, "Unauthorized");
+    }
+
+    const { tripId } = req.params;
+    if (!tripId) {
+      throw new ApiError(400, "Trip ID is required");
+    }
+
+    const validationResult = respondIncomingPatientSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      throw new ApiError(400, "Validation failed", validationResult.error.issues);
+    }
+
+    const { decision, reason } = validationResult.data;
+
+    const trip = await respondToIncomingPatient(
+      tripId as string,
+      hospitalId.toString(),
+      decision,
+      reason
+    );
+
+    res
+      .status(200)
+      .json(
+        new ApiResponse(
+          200,
+          trip,
+          decision === "ACCEPT"
+            ? "Incoming patient accepted"
+            : "Incoming patient declined, trip re-routed"
+        )
+      );
+  }
+);
+
+/**
+ * @description Get trips heading to the hospital with live ETA, patient snapshot and status
+ * @route GET /api/v2/hospital/trips/incoming
+ * @access Private (Hospital)
+ */
+const getIncomingTripsForHospital = asyncHandler(
+  async (req: Request, res: Response) => {
+    const hospitalId = (req as any).hospital?._id;
+
+    if (!hospitalId) {
+      throw new ApiError(401, "Unauthorized");
+    }
+
+    const trips = await getIncomingTrips(hospitalId.toString());
+
+    res.status(200).json(
+      new ApiResponse(
+        200,
+        { count: trips.length, trips },
+        "Incoming trips fetched successfully"
+      )
+    );
+  }
+);
+
+/**
+ * @description Get completed and cancelled trips that were routed to the hospital
+ * @route GET /api/v2/hospital/trips/history
+ * @access Private (Hospital)
+ */
+const getHospitalTripHistoryController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const hospitalId = (req as any).hospital?._id;
+
+    if (!hospitalId) {
+      throw new ApiError(401, "Unauthorized");
+    }
+
+    const validationResult = hospitalTripHistoryQuerySchema.safeParse(req.query);
+    if (!validationResult.success) {
+      throw new ApiError(400, "Validation failed", validationResult.error.issues);
+    }
+
+    const { status, from, to, limit } = validationResult.data;
+
+    const trips = await getHospitalTripHistory(hospitalId.toString(), {
+      ...(status && { status }),
+      ...(from && { from }),
+      ...(to && { to }),
+      limit,
+    });
+
+    res.status(200).json(
+      new ApiResponse(
+        200,
+        { count: trips.length, trips },
+        "Trip history fetched successfully"
+      )
+    );
+  }
+);
+
 export {
   registerHospital,
   loginHospital,
@@ -465,5 +860,14 @@ export {
   getHospitalProfile,
   updateHospitalInventory,
   updateHospitalLocation,
-  getNearbyHospitals
+  getNearbyHospitals,
+  updateHospitalSpecialties,
+  updateHospitalDiversion,
+  getMyInventoryHistory,
+  getInventoryTimeSeriesForAdmin,
+  getMyReservations,
+  consumeReservation,
+  respondToIncomingTrip,
+  getIncomingTripsForHospital,
+  getHospitalTripHistoryController
 };
@@ -1,4 +1,12 @@
 import { z } from "zod";
+import {
+  HOSPITAL_DIVERSION_STATUSES,
+  HOSPITAL_SPECIALTIES,
+} from "../model/hospital.model.js";
+import {
+  RESERVATION_STATUSES,
+  RESERVATION_TYPES,
+} from "../model/reservation.model.js";
 
 // Zod schema for hospital location (GeoJSON Point)
 const locationSchema = z.object({
@@ -43,6 +51,7 @@ export const createHospitalSchema = z.object({
     .regex(/^[0-9+()-\s]+$/, "Invalid phone number format"),
   address: z.string().trim().min(1, "Address is required"),
   location: locationSchema,
+  specialties: z.array(z.enum(HOSPITAL_SPECIALTIES)).max(HOSPITAL_SPECIALTIES.length).optional(),
   inventory: z.object({
     beds: bedInventorySchema.optional().default({ total: 0, available: 0 }),
     bloodStock: bloodStockSchema.optional().default({
@@ -72,6 +81,7 @@ export const hospitalLoginSchema = z.object({
 export const updateInventorySchema = z.object({
   beds: bedInventorySchema.optional(),
   bloodStock: bloodStockSchema.partial().optional(),
+  reason: z.string().trim().max(500).optional(), // Kept in the inventory history
 });
 
 // Update hospital location schema
@@ -86,11 +96,103 @@ export const nearbyHospitalQuerySchema = z.object({
   maxDistance: z.coerce.number().positive().default(10000), // in meters
   bloodType: z.enum(["A+", "A-", "B+", "B-", "O+", "O-", "AB+", "AB-"]).optional(),
   requireBeds: z.coerce.boolean().default(false),
+  specialty: z.enum(HOSPITAL_SPECIALTIES).optional(),
 });
 
+// Replace the hospital's specialty / department list
+export const updateSpecialtiesSchema = z.object({
+  specialties: z.array(z.enum(HOSPITAL_SPECIALTIES)).max(HOSPITAL_SPECIALTIES.length),
+});
+
+// Accept / decline an incoming patient
+export const respondIncomingPatientSchema = z.object({
+  decision: z.enum(["ACCEPT", "DECLINE"]),
+  reason: z.string().trim().min(1).max(500).optional(),
+});
+
+// Toggle diversion (expiresAt only applies to a diversion, not to OPEN)
+export const setDiversionSchema = z.object({
+  status: z.enum(HOSPITAL_DIVERSION_STATUSES),
+  reason: z.string().trim().min(1).max(500).optional(),
+  expiresAt: z.coerce
+    .date()
+    .refine((date) => date.getTime() > Date.now(), {
+      message: "Diversion expiry must be in the future",
+    })
+    .optional(),
+});
+
+// Hospital reservation list query (defaults to the ones currently held)
+export const reservationListQuerySchema = z.object({
+  status: z.enum(RESERVATION_STATUSES).optional(),
+  type: z.enum(RESERVATION_TYPES).optional(),
+});
+
+// Blood units actually used at handover
+export const consumeReservationSchema = z.object({
+  unitsUsed: z.number().int().min(0).max(50),
+});
+
+// Hospital inventory history query
+export const inventoryHistoryQuerySchema = z
+  .object({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    field: z.string().trim().optional(), // e.g. "beds.available", "bloodStock.O_negative"
+    limit: z.coerce.number().int().min(1).max(500).default(100),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: "from must be before to",
+    path: ["from"],
+  });
+
+export const hospitalTripHistoryQuerySchema = z
+  .object({
+    status: z.enum(["COMPLETED", "CANCELLED"]).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: "from must be before to",
+    path: ["from"],
+  });
+
+// Admin bed occupancy / blood stock time series (at most 31 days hourly or 366 days daily)
+const MAX_TIMESERIES_BUCKETS = { hour: 31 * 24, day: 366 };
+
+export const inventoryTimeSeriesQuerySchema = z
+  .object({
+    from: z.coerce.date(),
+    to: z.coerce.date().default(() => new Date()),
+    interval: z.enum(["hour", "day"]).default("day"),
+    groupBy: z.enum(["hospital", "region"]).default("hospital"),
+    hospitalId: z.string().optional(),
+    regionId: z.string().optional(),
+  })
+  .refine((query) => query.from < query.to, {
+    message: "from must be before to",
+    path: ["from"],
+  })
+  .refine(
+    (query) =>
+      (query.to.getTime() - query.from.getTime()) /
+        (query.interval === "hour" ? 3600000 : 86400000) <=
+      MAX_TIMESERIES_BUCKETS[query.interval],
+    { message: "Range too long for this interval", path: ["to"] }
+  );
+
 // Type exports
 export type CreateHospitalInput = z.infer<typeof createHospitalSchema>;
 export type HospitalLoginInput = z.infer<typeof hospitalLoginSchema>;
 export type UpdateInventoryInput = z.infer<typeof updateInventorySchema>;
 export type UpdateHospitalLocationInput = z.infer<typeof updateHospitalLocationSchema>;
-export type NearbyHospitalQuery = z.infer<typeof nearbyHospitalQuerySchema>;
\ No newline at end of file
+export type NearbyHospitalQuery = z.infer<typeof nearbyHospitalQuerySchema>;
+export type UpdateSpecialtiesInput = z.infer<typeof updateSpecialtiesSchema>;
+export type SetDiversionInput = z.infer<typeof setDiversionSchema>;
+export type ReservationListQuery = z.infer<typeof reservationListQuerySchema>;
+export type ConsumeReservationInput = z.infer<typeof consumeReservationSchema>;
+export type InventoryHistoryQuery = z.infer<typeof inventoryHistoryQuerySchema>;
+export type InventoryTimeSeriesQuery = z.infer<typeof inventoryTimeSeriesQuerySchema>;
+export type HospitalTripHistoryQuery = z.infer<typeof hospitalTripHistoryQuerySchema>;
+export type RespondIncomingPatientInput = z.infer<typeof respondIncomingPatientSchema>;
\ No newline at end of file
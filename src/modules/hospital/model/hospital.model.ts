@@ -6,7 +6,7 @@ import {
   hashPassword,
 } from "../../../shared/utils/auth.util.js";
 
-interface IBloodStock {
+export interface IBloodStock {
   A_positive: number;
   A_negative: number;
   B_positive: number;
@@ -17,9 +17,44 @@ interface IBloodStock {
   AB_negative: number;
 }
 
+export type BloodStockKey = keyof IBloodStock;
+
 interface IBedInventory {
   total: number;
-  available: number;
+  available: number; // Free beds, not counting the ones held for incoming trips
+  reserved: number; // Held for incoming trips (see Reservation), managed by the system
+}
+
+// Departments / units a hospital can declare (used to route e.g. strokes to a stroke unit)
+export const HOSPITAL_SPECIALTIES = [
+  "EMERGENCY",
+  "TRAUMA_CENTER",
+  "CATH_LAB",
+  "STROKE_UNIT",
+  "BURNS_UNIT",
+  "NICU",
+  "PICU",
+  "ICU",
+  "MATERNITY",
+  "NEUROSURGERY",
+  "DIALYSIS",
+  "POISON_CONTROL",
+] as const;
+export type HospitalSpecialty = (typeof HOSPITAL_SPECIALTIES)[number];
+
+// OPEN: receiving patients, TRAUMA_DIVERSION: no trauma patients, FULL_DIVERSION: no ambulances at all
+export const HOSPITAL_DIVERSION_STATUSES = [
+  "OPEN",
+  "TRAUMA_DIVERSION",
+  "FULL_DIVERSION",
+] as const;
+export type HospitalDiversionStatus = (typeof HOSPITAL_DIVERSION_STATUSES)[number];
+
+export interface IHospitalDiversion {
+  status: HospitalDiversionStatus;
+  reason?: string;
+  expiresAt?: Date | null; // Back to OPEN after this time (null = until turned off)
+  updatedAt?: Date;
 }
 
 export interface IHospital extends Document {
@@ -34,8 +69,11 @@ export interface IHospital extends Document {
   };
   inventory: {
     beds: IBedInventory;
-    bloodStock: IBloodStock;
+    bloodStock: IBloodStock; // Units on hand, not counting the ones held for incoming trips
+    bloodReserved: IBloodStock; // Held for incoming trips (see Reservation), managed by the system
   };
+  specialties: HospitalSpecialty[]; // Departments/units (e.g. CATH_LAB, BURNS_UNIT)
+  diversion: IHospitalDiversion;
   refreshToken?: string | null;
 
   // Methods
@@ -89,6 +127,7 @@ const HospitalSchema = new Schema<IHospital>(
       beds: {
         total: { type: Number, default: 0 },
         available: { type: Number, default: 0 },
+        reserved: { type: Number, default: 0, min: 0 },
       },
       bloodStock: {
         A_positive: { type: Number, default: 0 },
@@ -100,6 +139,31 @@ const HospitalSchema = new Schema<IHospital>(
         AB_positive: { type: Number, default: 0 },
         AB_negative: { type: Number, default: 0 },
       },
+      bloodReserved: {
+        A_positive: { type: Number, default: 0, min: 0 },
+        A_negative: { type: Number, default: 0, min: 0 },
+        B_positive: { type: Number, default: 0, min: 0 },
+        B_negative: { type: Number, default: 0, min: 0 },
+        O_positive: { type: Number, default: 0, min: 0 },
+        O_negative: { type: Number, default: 0, min: 0 },
+        AB_positive: { type: Number, default: 0, min: 0 },
+        AB_negative: { type: Number, default: 0, min: 0 },
+      },
+    },
+    specialties: {
+      type: [{ type: String, enum: HOSPITAL_SPECIALTIES }],
+      default: [],
+      index: true,
+    },
+    diversion: {
+      status: {
+        type: String,
+        enum: HOSPITAL_DIVERSION_STATUSES,
+        default: "OPEN",
+      },
+      reason: { type: String, trim: true },
+      expiresAt: { type: Date, default: null },
+      updatedAt: { type: Date },
     },
     refreshToken: {
       type: String,
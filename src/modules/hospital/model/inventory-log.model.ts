@@ -0,0 +1,68 @@
+import mongoose, { Document, Schema } from "mongoose";
+import type { IBloodStock } from "./hospital.model.js";
+
+// One changed inventory field, e.g. { field: "beds.available", from: 12, to: 11 }
+export interface IInventoryChange {
+  field: string;
+  from: number;
+  to: number;
+}
+
+// Full inventory right after the change (used for the time series)
+export interface IInventorySnapshot {
+  beds: {
+    total: number;
+    available: number;
+    reserved: number;
+  };
+  bloodStock: IBloodStock;
+  bloodReserved: IBloodStock;
+}
+
+export interface IInventoryLog extends Document {
+  hospitalId: mongoose.Types.ObjectId;
+  regionId?: mongoose.Types.ObjectId | null; // Service region of the hospital at the time
+  changes: IInventoryChange[];
+  snapshot: IInventorySnapshot;
+  changedBy: string; // "hospital:ID" or "system:reservation"
+  reason?: string;
+  createdAt: Date;
+}
+
+const InventoryLogSchema = new Schema<IInventoryLog>(
+  {
+    hospitalId: {
+      type: Schema.Types.ObjectId,
+      ref: "Hospital",
+      required: true,
+    },
+    regionId: {
+      type: Schema.Types.ObjectId,
+      ref: "ServiceRegion",
+      default: null,
+    },
+    changes: [
+      {
+        field: { type: String, required: true },
+        from: { type: Number, required: true },
+        to: { type: Number, required: true },
+        _id: false,
+      },
+    ],
+    // Stored as-is, always written from the hospital document
+    snapshot: { type: Schema.Types.Mixed, required: true },
+    changedBy: { type: String, required: true },
+    reason: { type: String },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+InventoryLogSchema.index({ hospitalId: 1, createdAt: -1 });
+InventoryLogSchema.index({ regionId: 1, createdAt: -1 });
+
+export const InventoryLog = mongoose.model<IInventoryLog>(
+  "InventoryLog",
+  InventoryLogSchema
+);
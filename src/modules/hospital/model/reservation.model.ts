@@ -0,0 +1,92 @@
+import mongoose, { Document, Schema } from "mongoose";
+import type { BloodStockKey } from "./hospital.model.js";
+
+// What is held at the hospital for an incoming trip
+export const RESERVATION_TYPES = ["BED", "BLOOD"] as const;
+export type ReservationType = (typeof RESERVATION_TYPES)[number];
+
+// HELD → RELEASED (cancel/re-route), EXPIRED (TTL elapsed) or CONSUMED (patient handed over)
+export const RESERVATION_STATUSES = [
+  "HELD",
+  "RELEASED",
+  "EXPIRED",
+  "CONSUMED",
+] as const;
+export type ReservationStatus = (typeof RESERVATION_STATUSES)[number];
+
+export interface IReservation extends Document {
+  hospitalId: mongoose.Types.ObjectId;
+  tripId: mongoose.Types.ObjectId;
+  type: ReservationType;
+  bloodType?: BloodStockKey; // BLOOD only
+  quantity: number; // Beds or blood units held
+  status: ReservationStatus;
+
+  expiresAt: Date;
+  releasedAt?: Date;
+  releaseReason?: string;
+  consumedAt?: Date;
+  consumedQuantity?: number; // Blood units actually used at handover
+  consumedBy?: string;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReservationSchema = new Schema<IReservation>(
+  {
+    hospitalId: {
+      type: Schema.Types.ObjectId,
+      ref: "Hospital",
+      required: true,
+    },
+    tripId: {
+      type: Schema.Types.ObjectId,
+      ref: "Trip",
+      required: true,
+      index: true,
+    },
+    type: {
+      type: String,
+      enum: RESERVATION_TYPES,
+      required: true,
+    },
+    bloodType: {
+      type: String,
+      enum: [
+        "A_positive",
+        "A_negative",
+        "B_positive",
+        "B_negative",
+        "O_positive",
+        "O_negative",
+        "AB_positive",
+        "AB_negative",
+      ],
+    },
+    quantity: { type: Number, default: 1, min: 1 },
+    status: {
+      type: String,
+      enum: RESERVATION_STATUSES,
+      default: "HELD",
+    },
+
+    expiresAt: { type: Date, required: true },
+    releasedAt: { type: Date },
+    releaseReason: { type: String },
+    consumedAt: { type: Date },
+    consumedQuantity: { type: Number, min: 0 },
+    consumedBy: { type: String },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Hospital reservation list
+ReservationSchema.index({ hospitalId: 1, status: 1, createdAt: -1 });
+
+export const Reservation = mongoose.model<IReservation>(
+  "Reservation",
+  ReservationSchema
+);
@@ -1,12 +1,19 @@
 import { Router } from "express";
 import { z } from "zod";
 import { validate } from "../../../shared/middlewares/validate.middleware.js";
-import { verifyHospitalJWT } from "../../../shared/middlewares/auth.middleware.js";
+import {
+  verifyHospitalJWT,
+  verifyAdminJWT,
+} from "../../../shared/middlewares/auth.middleware.js";
 import {
   createHospitalSchema,
   hospitalLoginSchema,
   updateInventorySchema,
   updateHospitalLocationSchema,
+  respondIncomingPatientSchema,
+  setDiversionSchema,
+  consumeReservationSchema,
+  updateSpecialtiesSchema,
 } from "../hospital.dto/hospital.dto.js";
 import {
   registerHospital,
@@ -16,6 +23,15 @@ import {
   updateHospitalInventory,
   updateHospitalLocation,
   getNearbyHospitals,
+  updateHospitalSpecialties,
+  updateHospitalDiversion,
+  getMyInventoryHistory,
+  getInventoryTimeSeriesForAdmin,
+  getMyReservations,
+  consumeReservation,
+  respondToIncomingTrip,
+  getIncomingTripsForHospital,
+  getHospitalTripHistoryController,
 } from "../controllers/hospital.controller.js";
 
 const router = Router();
@@ -48,9 +64,9 @@ router.post(
 
 /**
  * @route   GET /api/v2/hospital/nearby
- * @desc    Find nearby hospitals based on user location
+ * @desc    Find nearby hospitals (only those with the specialty, if given), ranked by score (travel time, free beds, blood units, specialty, incoming load)
  * @access  Public
- * @query   longitude, latitude, limit (optional), bloodType (optional), requireBeds (optional)
+ * @query   longitude, latitude, limit (optional), bloodType (optional), requireBeds (optional), specialty (optional)
  */
 router.get("/nearby", getNearbyHospitals);
 
@@ -75,7 +91,7 @@ router.get("/me", verifyHospitalJWT, getHospitalProfile);
 
 /**
  * @route   PATCH /api/v2/hospital/inventory
- * @desc    Update hospital inventory (beds and blood stock)
+ * @desc    Update hospital inventory (beds and blood stock), optional reason for the history
  * @access  Private
  */
 router.patch(
@@ -85,6 +101,14 @@ router.patch(
   updateHospitalInventory
 );
 
+/**
+ * @route   GET /api/v2/hospital/inventory/history
+ * @desc    Inventory change history (who, when, old → new, reason)
+ * @access  Private
+ * @query   from (optional), to (optional), field (optional), limit (optional, default 100)
+ */
+router.get("/inventory/history", verifyHospitalJWT, getMyInventoryHistory);
+
 /**
  * @route   PATCH /api/v2/hospital/location
  * @desc    Update hospital location
@@ -97,4 +121,95 @@ router.patch(
   updateHospitalLocation
 );
 
+/**
+ * @route   PATCH /api/v2/hospital/specialties
+ * @desc    Replace the hospital's specialty / department list (CATH_LAB, STROKE_UNIT, NICU, ...)
+ * @access  Private
+ */
+router.patch(
+  "/specialties",
+  verifyHospitalJWT,
+  validate(z.object({ body: updateSpecialtiesSchema })),
+  updateHospitalSpecialties
+);
+
+/**
+ * @route   PATCH /api/v2/hospital/diversion
+ * @desc    Set diversion status (OPEN, TRAUMA_DIVERSION, FULL_DIVERSION) with optional expiry
+ * @access  Private
+ */
+router.patch(
+  "/diversion",
+  verifyHospitalJWT,
+  validate(z.object({ body: setDiversionSchema })),
+  updateHospitalDiversion
+);
+
+/**
+ * @route   GET /api/v2/hospital/reservations
+ * @desc    List beds and blood units held for incoming trips
+ * @access  Private
+ * @query   status (optional, default HELD), type (optional)
+ */
+router.get("/reservations", verifyHospitalJWT, getMyReservations);
+
+/**
+ * @route   POST /api/v2/hospital/reservations/:reservationId/consume
+ * @desc    Record blood units used at handover (unused held units go back to stock)
+ * @access  Private
+ */
+router.post(
+  "/reservations/:reservationId/consume",
+  verifyHospitalJWT,
+  validate(z.object({ body: consumeReservationSchema })),
+  consumeReservation
+);
+
+/**
+ * @route   GET /api/v2/hospital/trips/incoming
+ * @desc    Trips heading to the hospital with live ETA, patient snapshot and status
+ * @access  Private
+ */
+router.get("/trips/incoming", verifyHospitalJWT, getIncomingTripsForHospital);
+
+/**
+ * @route   GET /api/v2/hospital/trips/history
+ * @desc    Completed and cancelled trips that were routed to the hospital
+ * @access  Private
+ * @query   status (optional), from, to (optional), limit (optional, default 20)
+ */
+router.get(
+  "/trips/history",
+  verifyHospitalJWT,
+  getHospitalTripHistoryController
+);
+
+/**
+ * @route   POST /api/v2/hospital/trips/:tripId/respond
+ * @desc    Accept or decline an incoming patient (decline re-routes the trip)
+ * @access  Private
+ */
+router.post(
+  "/trips/:tripId/respond",
+  verifyHospitalJWT,
+  validate(z.object({ body: respondIncomingPatientSchema })),
+  respondToIncomingTrip
+);
+
+// ============================================
+// ADMIN ROUTES
+// ============================================
+
+/**
+ * @route   GET /api/v2/hospital/admin/inventory/timeseries
+ * @desc    Bed occupancy and blood stock over time, per hospital or per region
+ * @access  Private (Admin)
+ * @query   from, to (optional), interval (hour|day), groupBy (hospital|region), hospitalId (optional), regionId (optional)
+ */
+router.get(
+  "/admin/inventory/timeseries",
+  verifyAdminJWT,
+  getInventoryTimeSeriesForAdmin
+);
+
 export const hospitalRoutes: ReturnType<typeof Router> = router;
\ No newline at end of file
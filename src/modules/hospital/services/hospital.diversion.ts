@@ -0,0 +1,107 @@
+import { Hospital } from "../model/hospital.model.js";
+import type {
+  IHospital,
+  HospitalDiversionStatus,
+} from "../model/hospital.model.js";
+import { Trip } from "../../trip/model/trip.model.js";
+import type { TripStatus } from "../../trip/model/trip.model.js";
+import { ApiError } from "../../../shared/utils/ApiError.js";
+import { getIO } from "../../../shared/infra/sockets/socket.config.js";
+
+interface SetDiversionInput {
+  status: HospitalDiversionStatus;
+  reason?: string;
+  expiresAt?: Date;
+}
+
+// Trips with an ambulance already heading to (or carrying a patient for) the hospital
+const EN_ROUTE_STATUSES: TripStatus[] = [
+  "ACCEPTED",
+  "ARRIVED_PICKUP",
+  "EN_ROUTE_HOSPITAL",
+];
+
+/**
+ * Turn diversion on or off for a hospital
+ * 1. Store the new state (OPEN clears reason and expiry)
+ * 2. Broadcast hospital_diversion_updated to admins
+ * 3. Warn every ambulance currently en route to this hospital
+ */
+const setHospitalDiversion = async (
+  hospitalId: string,
+  input: SetDiversionInput
+): Promise<IHospital> => {
+  const { status, reason, expiresAt } = input;
+
+  if (expiresAt && expiresAt.getTime() <= Date.now()) {
+    throw new ApiError(400, "Diversion expiry must be in the future");
+  }
+
+  const isOpen = status === "OPEN";
+  const hospital = await Hospital.findByIdAndUpdate(
+    hospitalId,
+    {
+      $set: {
+        diversion: {
+          status,
+          ...(!isOpen && reason && { reason }),
+          expiresAt: !isOpen && expiresAt ? expiresAt : null,
+          updatedAt: new Date(),
+        },
+      },
+    },
+    { new: true, runValidators: true }
+  ).select("-password -refreshToken");
+
+  if (!hospital) {
+    throw new ApiError(404, "Hospital not found");
+  }
+
+  const enRouteTrips = await Trip.find({
+    destinationHospitalId: hospitalId,
+    status: { $in: EN_ROUTE_STATUSES },
+    ambulanceId: { $ne: null },
+  })
+    .select("_id ambulanceId isTrauma")
+    .lean();
+
+  console.log(
+    `🏥 Hospital ${hospitalId} diversion set to ${status}` +
+      (enRouteTrips.length > 0 ? `, ${enRouteTrips.length} ambulance(s) en route` : "")
+  );
+
+  try {
+    const io = getIO();
+    const payload = {
+      hospitalId,
+      name: hospital.name,
+      diversion: hospital.diversion,
+      timestamp: new Date().toISOString(),
+    };
+
+    io.to("admin-room").emit("hospital_diversion_updated", {
+      ...payload,
+      enRouteTripIds: enRouteTrips.map((trip) => trip._id.toString()),
+    });
+
+    for (const trip of enRouteTrips) {
+      io.to(`ambulance:${trip.ambulanceId!.toString()}`).emit(
+        "hospital_diversion_updated",
+        {
+          ...payload,
+          tripId: trip._id.toString(),
+          // Whether this particular patient is now refused
+          affectsTrip:
+            status === "FULL_DIVERSION" ||
+            (status === "TRAUMA_DIVERSION" && trip.isTrauma),
+        }
+      );
+    }
+  } catch (socketError) {
+    console.error("Socket emission error:", socketError);
+  }
+
+  return hospital;
+};
+
+export { setHospitalDiversion };
@@ -0,0 +1,265 @@
+import mongoose from "mongoose";
+import { Trip } from "../../trip/model/trip.model.js";
+import type { ITrip } from "../../trip/model/trip.model.js";
+import { Hospital } from "../model/hospital.model.js";
+import { findNearbyHospitals } from "./hospital.service.js";
+import { rankHospitals } from "./hospital.scoring.js";
+import {
+  reserveTripResources,
+  releaseTripReservations,
+} from "./reservation.service.js";
+import { ApiError } from "../../../shared/utils/ApiError.js";
+import { getIO } from "../../../shared/infra/sockets/socket.config.js";
+import { estimateEta, formatEta } from "../../../shared/infra/eta/eta.service.js";
+
+export type HospitalDecision = "ACCEPT" | "DECLINE";
+
+// Trips a hospital can still accept or turn away
+const RESPONDABLE_STATUSES = [
+  "SEARCHING",
+  "ACCEPTED",
+  "ARRIVED_PICKUP",
+  "EN_ROUTE_HOSPITAL",
+];
+
+/**
+ * Tell the destination hospital a patient is on the way (incoming_patient)
+ * Starts a PENDING handshake the hospital answers via POST /hospital/trips/:tripId/respond.
+ */
+const notifyIncomingPatient = async (tripId: string): Promise<void> => {
+  const trip = await Trip.findById(tripId)
+    .populate("ambulanceId", "driverName vehicleNumber capabilityClass phone")
+    .lean();
+
+  if (!trip?.destinationHospitalId) return;
+
+  const hospitalId = trip.destinationHospitalId.toString();
+  const hospital = await Hospital.findById(hospitalId).select("location");
+  if (!hospital) return;
+
+  await Trip.updateOne(
+    { _id: tripId, destinationHospitalId: hospitalId },
+    {
+      $set: {
+        hospitalHandshake: {
+          hospitalId,
+          status: "PENDING",
+          notifiedAt: new Date(),
+        },
+      },
+    }
+  );
+
+  // Pickup → hospital, the leg the hospital cares about
+  const eta = await estimateEta(
+    trip.pickup.coordinates,
+    hospital.location.coordinates
+  );
+
+  try {
+    getIO().to(`hospital:${hospitalId}`).emit("incoming_patient", {
+      tripId,
+      status: trip.status,
+      triageLevel: trip.triageLevel,
+      requiredCapability: trip.requiredCapability,
+      requiredSpecialty: trip.requiredSpecialty,
+      patientSnapshot: trip.patientSnapshot,
+      pickup: trip.pickup,
+      ambulance: trip.ambulanceId,
+      incidentId: trip.incidentId,
+      eta,
+      estimatedArrival: formatEta(eta.durationSeconds),
+      message: "Incoming patient. Please accept or decline.",
+      timestamp: new Date().toISOString(),
+    });
+
+    console.log(`🏥 Notified hospital ${hospitalId} of incoming trip ${tripId}`);
+  } catch (socketError) {
+    console.error("Socket emission error:", socketError);
+  }
+};
+
+/**
+ * Best scored hospital for the trip that has not declined it yet (nor is excluded)
+ */
+const findNextHospital = async (
+  trip: ITrip,
+  excludeHospitalIds: string[] = []
+) => {
+  const declined = new Set([
+    ...trip.declinedHospitalIds.map((hospitalId) => hospitalId.toString()),
+    ...excludeHospitalIds,
+  ]);
+
+  const [lng, lat] = trip.pickup.coordinates;
+  const bloodRequirement = trip.bloodRequirement;
+  const nearbyHospitals = await findNearbyHospitals(lng, lat, undefined, {
+    requireBeds: true,
+    isTrauma: trip.isTrauma,
+    ...(trip.requiredSpecialty && { specialty: trip.requiredSpecialty }),
+    ...(bloodRequirement && {
+      bloodType: bloodRequirement.bloodType,
+      bloodUnits: bloodRequirement.units,
+    }),
+  });
+  const ranked = await rankHospitals(
+    trip.pickup.coordinates,
+    nearbyHospitals.filter((result) => !declined.has(result.hospitalId)),
+    {
+      ...(bloodRequirement && { bloodType: bloodRequirement.bloodType }),
+      ...(trip.requiredSpecialty && { requiredSpecialty: trip.requiredSpecialty }),
+    }
+  );
+  return ranked[0]?.hospitalData ?? null;
+};
+
+/**
+ * Route the trip to the best scored hospital that has not declined it yet
+ * @returns the new hospital id, or null if none is left (the trip keeps its destination)
+ */
+const rerouteToNextHospital = async (trip: ITrip): Promise<string | null> => {
+  const tripId = trip._id!.toString();
+  const next = await findNextHospital(trip);
+  if (!next) return null;
+
+  const nextHospitalId = (next._id as mongoose.Types.ObjectId).toString();
+  await Trip.updateOne(
+    { _id: tripId },
+    {
+      $set: {
+        destinationHospitalId: next._id,
+        dropoff: {
+          address: next.address,
+          coordinates: next.location.coordinates,
+        },
+      },
+    }
+  );
+
+  await reserveTripResources(tripId, nextHospitalId);
+  await notifyIncomingPatient(tripId);
+  return nextHospitalId;
+};
+
+/**
+ * Destination hospital accepts or declines an incoming patient
+ * On decline the trip is automatically re-routed to the next best hospital.
+ */
+const respondToIncomingPatient = async (
+  tripId: string,
+  hospitalId: string,
+  decision: HospitalDecision,
+  reason?: string
+): Promise<ITrip> => {
+  const trip = await Trip.findById(tripId);
+  if (!trip) {
+    throw new ApiError(404, "Trip not found");
+  }
+
+  if (trip.destinationHospitalId?.toString() !== hospitalId) {
+    throw new ApiError(403, "Forbidden - Trip is not routed to this hospital");
+  }
+
+  if (!RESPONDABLE_STATUSES.includes(trip.status)) {
+    throw new ApiError(409, `Trip can no longer be answered (${trip.status})`);
+  }
+
+  // A decline must leave the patient somewhere to go
+  if (decision === "DECLINE" && !(await findNextHospital(trip, [hospitalId]))) {
+    throw new ApiError(
+      409,
+      "No other hospital can take this patient. Contact dispatch instead of declining"
+    );
+  }
+
+  const now = new Date();
+  const status = decision === "ACCEPT" ? "ACCEPTED" : "DECLINED";
+
+  // Only a pending handshake can be answered, and only once
+  const updatedTrip = await Trip.findOneAndUpdate(
+    {
+      _id: tripId,
+      destinationHospitalId: hospitalId,
+      "hospitalHandshake.status": "PENDING",
+    },
+    {
+      $set: {
+        "hospitalHandshake.status": status,
+        "hospitalHandshake.respondedAt": now,
+        ...(reason && { "hospitalHandshake.reason": reason }),
+      },
+      ...(decision === "DECLINE" && {
+        $addToSet: { declinedHospitalIds: new mongoose.Types.ObjectId(hospitalId) },
+      }),
+    },
+    { new: true }
+  );
+
+  if (!updatedTrip) {
+    throw new ApiError(409, "Trip has already been answered");
+  }
+
+  const payload = {
+    tripId,
+    hospitalId,
+    decision,
+    ...(reason && { reason }),
+    timestamp: now.toISOString(),
+  };
+
+  if (decision === "ACCEPT") {
+    try {
+      const io = getIO();
+      io.to(`trip:${tripId}`).emit("hospital_response", payload);
+      io.to("admin-room").emit("hospital_response", payload);
+    } catch (socketError) {
+      console.error("Socket emission error:", socketError);
+    }
+
+    console.log(`🏥 Hospital ${hospitalId} accepted trip ${tripId}`);
+    return updatedTrip;
+  }
+
+  console.log(`🏥 Hospital ${hospitalId} declined trip ${tripId}, re-routing`);
+
+  const nextHospitalId = await rerouteToNextHospital(updatedTrip);
+
+  // Held resources stay in place until the patient has a new destination
+  if (nextHospitalId) {
+    await releaseTripReservations(tripId, "Declined by hospital", hospitalId);
+  }
+
+  try {
+    const io = getIO();
+    const rerouted = await Trip.findById(tripId)
+      .select("destinationHospitalId dropoff")
+      .populate("destinationHospitalId", "name address phone")
+      .lean();
+
+    const reroutePayload = {
+      ...payload,
+      newHospital: nextHospitalId ? rerouted?.destinationHospitalId : null,
+      dropoff: rerouted?.dropoff,
+      message: nextHospitalId
+        ? "Destination hospital changed"
+        : "No other hospital available, continue to the current destination. Admins have been alerted",
+    };
+
+    io.to(`trip:${tripId}`).emit("hospital_rerouted", reroutePayload);
+    io.to("admin-room").emit("hospital_rerouted", reroutePayload);
+
+    // The last candidate went away between the check and the re-route
+    if (!nextHospitalId) {
+      io.to("admin-room").emit("hospital_reroute_failed", {
+        ...payload,
+        message: "Declined trip has no other hospital, manual routing needed",
+      });
+    }
+  } catch (socketError) {
+    console.error("Socket emission error:", socketError);
+  }
+
+  return (await Trip.findById(tripId)) ?? updatedTrip;
+};
+
+export { notifyIncomingPatient, rerouteToNextHospital, respondToIncomingPatient };
@@ -0,0 +1,136 @@
+import mongoose from "mongoose";
+import { Trip } from "../../trip/model/trip.model.js";
+import type { HospitalSpecialty } from "../model/hospital.model.js";
+import { toBloodStockKey } from "./hospital.service.js";
+import type { NearbyHospitalResult } from "./hospital.service.js";
+import { estimateEtasFrom } from "../../../shared/infra/eta/eta.service.js";
+import type { EtaResult } from "../../../shared/infra/eta/eta.provider.js";
+
+export interface HospitalScoringCriteria {
+  bloodType?: string; // DB key ("A_positive") or symbol ("A+")
+  requiredSpecialty?: HospitalSpecialty;
+}
+
+// Each factor is normalised to 0..1 before weighting
+export interface HospitalScoreBreakdown {
+  travelTime: number; // Fastest candidate = 1
+  freeBeds: number; // available / total beds
+  bloodUnits: number; // Units of the requested type, 1 at BLOOD_UNITS_TARGET or more
+  specialty: number; // 1 if the hospital has the requested specialty
+  incomingLoad: number; // 1 with no ambulances heading there, lower as load grows
+}
+
+export interface ScoredHospital extends NearbyHospitalResult {
+  score: number; // 0..100
+  breakdown: HospitalScoreBreakdown;
+  eta: EtaResult;
+  incomingAmbulances: number;
+}
+
+// Travel time matters most in an emergency, capacity next
+const SCORING_WEIGHTS: Record<keyof HospitalScoreBreakdown, number> = {
+  travelTime: 0.4,
+  freeBeds: 0.2,
+  bloodUnits: 0.15,
+  specialty: 0.15,
+  incomingLoad: 0.1,
+};
+
+// Units on hand at which blood stock stops improving the score
+const BLOOD_UNITS_TARGET = 10;
+
+// Trips with an ambulance on the way to (or at) the destination hospital
+const INCOMING_STATUSES = [
+  "ACCEPTED",
+  "ARRIVED_PICKUP",
+  "EN_ROUTE_HOSPITAL",
+  "ARRIVED_HOSPITAL",
+];
+
+/**
+ * Count active trips heading to each hospital
+ */
+const getIncomingLoad = async (
+  hospitalIds: string[]
+): Promise<Map<string, number>> => {
+  const counts = await Trip.aggregate<{ _id: mongoose.Types.ObjectId; count: number }>([
+    {
+      $match: {
+        destinationHospitalId: {
+          $in: hospitalIds.map((id) => new mongoose.Types.ObjectId(id)),
+        },
+        status: { $in: INCOMING_STATUSES },
+      },
+    },
+    { $group: { _id: "$destinationHospitalId", count: { $sum: 1 } } },
+  ]);
+
+  return new Map(counts.map(({ _id, count }) => [_id.toString(), count]));
+};
+
+/**
+ * Rank candidate hospitals for a patient at `origin`
+ * Factors that were not requested (no blood type / specialty) score 1 for every
+ * hospital, so they never change the order.
+ * @returns hospitals sorted best first, with the score breakdown
+ */
+const rankHospitals = async (
+  origin: [number, number],
+  candidates: NearbyHospitalResult[],
+  criteria: HospitalScoringCriteria = {}
+): Promise<ScoredHospital[]> => {
+  const withData = candidates.filter((candidate) => candidate.hospitalData);
+  if (withData.length === 0) return [];
+
+  const [etas, incomingLoad] = await Promise.all([
+    estimateEtasFrom(
+      origin,
+      withData.map((candidate) => {
+        const [lng, lat] = candidate.hospitalData!.location.coordinates;
+        return [lng, lat] as [number, number];
+      })
+    ),
+    getIncomingLoad(withData.map((candidate) => candidate.hospitalId)),
+  ]);
+
+  const fastest = Math.min(...etas.map((eta) => eta.durationSeconds));
+  const bloodKey = criteria.bloodType
+    ? toBloodStockKey(criteria.bloodType)
+    : null;
+
+  const scored = withData.map((candidate, index): ScoredHospital => {
+    const hospital = candidate.hospitalData!;
+    const eta = etas[index]!;
+    const incomingAmbulances = incomingLoad.get(candidate.hospitalId) ?? 0;
+    const { total, available } = hospital.inventory.beds;
+
+    const breakdown: HospitalScoreBreakdown = {
+      travelTime:
+        eta.durationSeconds > 0 ? Math.min(fastest / eta.durationSeconds, 1) : 1,
+      freeBeds: total > 0 ? Math.max(Math.min(available / total, 1), 0) : 0,
+      bloodUnits: bloodKey
+        ? Math.min((hospital.inventory.bloodStock[bloodKey] ?? 0) / BLOOD_UNITS_TARGET, 1)
+        : 1,
+      specialty: criteria.requiredSpecialty
+        ? Number((hospital.specialties ?? []).includes(criteria.requiredSpecialty))
+        : 1,
+      incomingLoad: 1 / (1 + incomingAmbulances),
+    };
+
+    const score = (
+      Object.keys(SCORING_WEIGHTS) as (keyof HospitalScoreBreakdown)[]
+    ).reduce((total, factor) => total + SCORING_WEIGHTS[factor] * breakdown[factor], 0);
+
+    return {
+      ...candidate,
+      score: Math.round(score * 1000) / 10,
+      breakdown,
+      eta,
+      incomingAmbulances,
+    };
+  });
+
+  return scored.sort((a, b) => b.score - a.score);
+};
+
+export { SCORING_WEIGHTS, rankHospitals };
@@ -1,5 +1,13 @@
 import redis from "../../../config/redis.js";
-import { Hospital, type IHospital } from "../model/hospital.model.js";
+import {
+  Hospital,
+  type IHospital,
+  type IHospitalDiversion,
+  type HospitalDiversionStatus,
+  type BloodStockKey,
+  type HospitalSpecialty,
+} from "../model/hospital.model.js";
+import { getSearchConfig } from "../../region/services/region.service.js";
 import type { Types } from "mongoose";
 
 const HOSPITAL_GEO_KEY = "hospital_locations";
@@ -62,7 +70,35 @@ const removeHospitalFromRedis = async (hospitalId: string): Promise<void> => {
   }
 };
 
-interface NearbyHospitalResult {
+/**
+ * Map a blood type symbol ("A+") to its inventory field ("A_positive"), DB keys pass through
+ */
+const toBloodStockKey = (bloodType: string): BloodStockKey =>
+  bloodType.replace("+", "_positive").replace("-", "_negative") as BloodStockKey;
+
+/**
+ * Diversion statuses that turn a patient away (trauma patients are also refused under TRAUMA_DIVERSION)
+ */
+const getBlockingDiversionStatuses = (
+  isTrauma: boolean
+): HospitalDiversionStatus[] =>
+  isTrauma ? ["FULL_DIVERSION", "TRAUMA_DIVERSION"] : ["FULL_DIVERSION"];
+
+/**
+ * Check whether a hospital currently refuses this patient (expired diversions count as open)
+ */
+const isHospitalDiverting = (
+  diversion: IHospitalDiversion | undefined,
+  isTrauma = false
+): boolean => {
+  if (!diversion) return false;
+  if (diversion.expiresAt && diversion.expiresAt.getTime() <= Date.now()) {
+    return false;
+  }
+  return getBlockingDiversionStatuses(isTrauma).includes(diversion.status);
+};
+
+export interface NearbyHospitalResult {
   hospitalId: string;
   distance: number; // in meters
   hospitalData: IHospital | null;
@@ -70,25 +106,31 @@ interface NearbyHospitalResult {
 
 /**
  * Find nearby hospitals with automatic radius failover
- * Searches at: 5km → 10km → 17km → 30km
+ * Searches the radius ladder of the service region containing the point
+ * (default: 5km → 10km → 17km → 30km)
  * @param longitude - User's longitude
  * @param latitude - User's latitude
- * @param limit - Maximum number of results (default: 10)
- * @param filters - Optional filters for blood type and beds
- * @returns Array of hospitals or empty array
+ * @param limit - Maximum number of results (default: the region's candidate count)
+ * @param filters - Optional filters for blood type (and units needed), beds and specialty, isTrauma for the diversion check
+ * @returns Array of hospitals or empty array (hospitals on diversion are skipped)
  */
 const findNearbyHospitals = async (
   longitude: number,
   latitude: number,
-  limit: number = 10,
+  limit?: number,
   filters?: {
     bloodType?: string;
+    bloodUnits?: number;
     requireBeds?: boolean;
+    specialty?: HospitalSpecialty;
+    isTrauma?: boolean;
   }
 ): Promise<NearbyHospitalResult[]> => {
-  // Define search radii in kilometers: 5 → 10 → 17 → 30
-  const searchRadii = [5, 10, 17, 30];
-  
+  // Radius ladder and result count come from the region containing the point
+  const searchConfig = await getSearchConfig(longitude, latitude, "hospital");
+  const searchRadii = searchConfig.radiiKm;
+  const maxResults = limit ?? searchConfig.candidateCount;
+
   console.log(`🔍 Searching for hospitals near (${longitude}, ${latitude})`);
 
   for (const radius of searchRadii) {
@@ -103,7 +145,7 @@ const findNearbyHospitals = async (
         ["WITHDIST", "WITHCOORD"], // what info you want back
         {
           SORT: "ASC", // nearest first
-          COUNT: limit * 2, // Get more to account for filtering
+          COUNT: maxResults * 2, // Get more to account for filtering
         }
       );
 
@@ -118,16 +160,30 @@ const findNearbyHospitals = async (
 
         // Apply filters if provided
         if (filters?.bloodType) {
-          const bloodKey = filters.bloodType
-            .replace("+", "_positive")
-            .replace("-", "_negative");
-          query[`inventory.bloodStock.${bloodKey}`] = { $gt: 0 };
+          const bloodKey = toBloodStockKey(filters.bloodType);
+          query[`inventory.bloodStock.${bloodKey}`] = {
+            $gte: filters.bloodUnits ?? 1,
+          };
         }
 
         if (filters?.requireBeds) {
           query["inventory.beds.available"] = { $gt: 0 };
         }
 
+        if (filters?.specialty) {
+          query.specialties = filters.specialty;
+        }
+
+        // Skip hospitals on diversion, unless the diversion has expired
+        query.$or = [
+          {
+            "diversion.status": {
+              $nin: getBlockingDiversionStatuses(filters?.isTrauma ?? false),
+            },
+          },
+          { "diversion.expiresAt": { $lte: new Date() } },
+        ];
+
         // Fetch full hospital data from MongoDB
         const hospitals = await Hospital.find(query).select(
           "-password -refreshToken"
@@ -148,7 +204,7 @@ const findNearbyHospitals = async (
             hospitalData: hospitalMap.get(result.member) || null,
           }))
           .filter((result) => result.hospitalData !== null)
-          .slice(0, limit); // Apply limit after filtering
+          .slice(0, maxResults); // Apply limit after filtering
 
         if (nearbyHospitals.length > 0) {
           console.log(
@@ -164,7 +220,9 @@ const findNearbyHospitals = async (
     }
   }
 
-  console.log(`❌ No hospitals found within 30km`);
+  console.log(
+    `❌ No hospitals found within ${searchRadii[searchRadii.length - 1]}km`
+  );
   return [];
 };
 
@@ -198,6 +256,8 @@ export {
   SyncHospitalToRedis,
   removeHospitalFromRedis,
   findNearbyHospitals,
+  isHospitalDiverting,
+  toBloodStockKey,
   getActiveHospitalCount,
   getAllActiveHospitalIds,
 };
\ No newline at end of file
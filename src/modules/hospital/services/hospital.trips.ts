@@ -0,0 +1,180 @@
+import type { Types } from "mongoose";
+import { Trip } from "../../trip/model/trip.model.js";
+import type { ITrip, TripStatus } from "../../trip/model/trip.model.js";
+import type { IAmbulance } from "../../ambulance/model/ambulance.model.js";
+import { Hospital } from "../model/hospital.model.js";
+import { ApiError } from "../../../shared/utils/ApiError.js";
+import { getCachedLocation } from "../../../shared/utils/location.util.js";
+import { estimateEta, formatEta } from "../../../shared/infra/eta/eta.service.js";
+import type { EtaResult } from "../../../shared/infra/eta/eta.provider.js";
+
+// Trips still on their way to (or just arrived at) the hospital
+const INCOMING_STATUSES: TripStatus[] = [
+  "SEARCHING",
+  "ACCEPTED",
+  "ARRIVED_PICKUP",
+  "EN_ROUTE_HOSPITAL",
+  "ARRIVED_HOSPITAL",
+];
+
+const FINISHED_STATUSES: TripStatus[] = ["COMPLETED", "CANCELLED"];
+
+// Fields of the assigned ambulance populated for the dashboard
+type IncomingAmbulance = Pick<
+  IAmbulance,
+  "driverName" | "driverPhone" | "vehicleNumber" | "capabilityClass" | "location"
+> & { _id: Types.ObjectId };
+
+// Lean trip with its ambulance populated
+type IncomingTripDoc = Omit<ITrip, "ambulanceId"> & {
+  _id: Types.ObjectId;
+  ambulanceId?: IncomingAmbulance | null;
+};
+
+export interface IncomingTrip {
+  tripId: string;
+  status: TripStatus;
+  triageLevel: ITrip["triageLevel"];
+  isTrauma: boolean;
+  requiredCapability?: ITrip["requiredCapability"];
+  requiredSpecialty?: ITrip["requiredSpecialty"];
+  bloodRequirement?: ITrip["bloodRequirement"];
+  incidentId?: ITrip["incidentId"];
+  patientSnapshot: ITrip["patientSnapshot"];
+  pickup: ITrip["pickup"];
+  ambulance: Omit<IncomingAmbulance, "location"> | null;
+  hospitalHandshake?: ITrip["hospitalHandshake"];
+  eta: EtaResult | null; // null once the ambulance is at the hospital
+  estimatedArrival: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Live ETA of a trip to the hospital
+ * - No ambulance yet: pickup → hospital (lower bound)
+ * - ACCEPTED: ambulance → pickup → hospital
+ * - Patient on board: ambulance → hospital
+ * The ambulance position is the live one from location_update, else its last known location.
+ */
+const getTripEtaToHospital = async (
+  trip: IncomingTripDoc,
+  hospitalLocation: [number, number]
+): Promise<EtaResult | null> => {
+  if (trip.status === "ARRIVED_HOSPITAL") return null;
+
+  const tripId = trip._id.toString();
+  const ambulanceLocation: [number, number] | null =
+    (trip.ambulanceId && (await getCachedLocation("ambulance", tripId))) ??
+    trip.ambulanceId?.location?.coordinates ??
+    null;
+
+  if (!ambulanceLocation || trip.status === "SEARCHING") {
+    return estimateEta(trip.pickup.coordinates, hospitalLocation);
+  }
+
+  if (trip.status === "ACCEPTED") {
+    const [toPickup, toHospital] = await Promise.all([
+      estimateEta(ambulanceLocation, trip.pickup.coordinates),
+      estimateEta(trip.pickup.coordinates, hospitalLocation),
+    ]);
+    return {
+      durationSeconds: toPickup.durationSeconds + toHospital.durationSeconds,
+      distanceMeters: toPickup.distanceMeters + toHospital.distanceMeters,
+      source: toPickup.source === toHospital.source ? toPickup.source : "heuristic",
+    };
+  }
+
+  return estimateEta(ambulanceLocation, hospitalLocation);
+};
+
+/**
+ * Trips currently routed to the hospital, soonest arrival first
+ */
+const getIncomingTrips = async (hospitalId: string): Promise<IncomingTrip[]> => {
+  const hospital = await Hospital.findById(hospitalId).select("location");
+  if (!hospital) {
+    throw new ApiError(404, "Hospital not found");
+  }
+
+  const trips = await Trip.find({
+    destinationHospitalId: hospitalId,
+    status: { $in: INCOMING_STATUSES },
+  })
+    .populate(
+      "ambulanceId",
+      "driverName driverPhone vehicleNumber capabilityClass location"
+    )
+    .lean<IncomingTripDoc[]>();
+
+  const hospitalLocation = hospital.location.coordinates;
+
+  const incoming = await Promise.all(
+    trips.map(async (trip): Promise<IncomingTrip> => {
+      const eta = await getTripEtaToHospital(trip, hospitalLocation);
+
+      return {
+        tripId: trip._id.toString(),
+        status: trip.status,
+        triageLevel: trip.triageLevel,
+        isTrauma: trip.isTrauma ?? false,
+        requiredCapability: trip.requiredCapability,
+        requiredSpecialty: trip.requiredSpecialty,
+        bloodRequirement: trip.bloodRequirement,
+        incidentId: trip.incidentId,
+        patientSnapshot: trip.patientSnapshot,
+        pickup: trip.pickup,
+        ambulance: trip.ambulanceId
+          ? {
+              _id: trip.ambulanceId._id,
+              driverName: trip.ambulanceId.driverName,
+              driverPhone: trip.ambulanceId.driverPhone,
+              vehicleNumber: trip.ambulanceId.vehicleNumber,
+              capabilityClass: trip.ambulanceId.capabilityClass,
+            }
+          : null,
+        hospitalHandshake: trip.hospitalHandshake,
+        eta,
+        estimatedArrival: eta ? formatEta(eta.durationSeconds) : null,
+        createdAt: trip.createdAt,
+      };
+    })
+  );
+
+  // Already arrived first, then by time to arrival
+  return incoming.sort(
+    (a, b) =>
+      (a.eta?.durationSeconds ?? -1) - (b.eta?.durationSeconds ?? -1)
+  );
+};
+
+/**
+ * Completed / cancelled trips that were routed to the hospital (newest first)
+ */
+const getHospitalTripHistory = async (
+  hospitalId: string,
+  options: {
+    status?: "COMPLETED" | "CANCELLED";
+    from?: Date;
+    to?: Date;
+    limit?: number;
+  } = {}
+): Promise<ITrip[]> => {
+  const { status, from, to, limit = 20 } = options;
+
+  return Trip.find({
+    destinationHospitalId: hospitalId,
+    status: status ?? { $in: FINISHED_STATUSES },
+    ...((from || to) && {
+      createdAt: {
+        ...(from && { $gte: from }),
+        ...(to && { $lte: to }),
+      },
+    }),
+  })
+    .sort({ createdAt: -1 })
+    .limit(limit)
+    .select("-timeline")
+    .populate("ambulanceId", "driverName vehicleNumber capabilityClass");
+};
+
+export { getIncomingTrips, getHospitalTripHistory };
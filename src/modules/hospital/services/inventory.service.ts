@@ -0,0 +1,364 @@
+import mongoose from "mongoose";
+import { Hospital } from "../model/hospital.model.js";
+import type {
+  IHospital,
+  IBloodStock,
+  BloodStockKey,
+} from "../model/hospital.model.js";
+import { InventoryLog } from "../model/inventory-log.model.js";
+import type {
+  IInventoryChange,
+  IInventoryLog,
+  IInventorySnapshot,
+} from "../model/inventory-log.model.js";
+import { ServiceRegion } from "../../region/model/region.model.js";
+import { getSearchConfig } from "../../region/services/region.service.js";
+
+interface InventoryChangeMeta {
+  changedBy: string;
+  reason?: string;
+}
+
+// Inventory updates are plain $set / $inc on "inventory.*" paths
+interface InventoryUpdate {
+  $set?: Record<string, number>;
+  $inc?: Record<string, number>;
+}
+
+export type TimeSeriesInterval = "hour" | "day";
+export type TimeSeriesGroupBy = "hospital" | "region";
+
+export interface InventoryTimeSeriesPoint {
+  bucket: Date;
+  beds: IInventorySnapshot["beds"] & {
+    occupied: number; // total - available - reserved
+    occupancyRate: number; // (occupied + reserved) / total, 0..1
+  };
+  bloodStock: Record<string, number>;
+  bloodReserved: Record<string, number>;
+  hospitals: number; // Hospitals with a known state in this bucket
+}
+
+export interface InventoryTimeSeries {
+  id: string | null; // hospitalId or regionId (null: outside every region)
+  name: string | null;
+  points: InventoryTimeSeriesPoint[];
+}
+
+const INTERVAL_MS: Record<TimeSeriesInterval, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+};
+
+const BLOOD_STOCK_KEYS: readonly BloodStockKey[] = [
+  "A_positive",
+  "A_negative",
+  "B_positive",
+  "B_negative",
+  "O_positive",
+  "O_negative",
+  "AB_positive",
+  "AB_negative",
+];
+
+/**
+ * Flatten the inventory into "beds.available" / "bloodStock.A_positive" → value
+ */
+const flattenInventory = (
+  inventory: IHospital["inventory"]
+): Record<string, number> => {
+  const flat: Record<string, number> = {
+    "beds.total": inventory.beds.total ?? 0,
+    "beds.available": inventory.beds.available ?? 0,
+    "beds.reserved": inventory.beds.reserved ?? 0,
+  };
+
+  for (const group of ["bloodStock", "bloodReserved"] as const) {
+    const stock: Partial<IBloodStock> = inventory[group] ?? {};
+    for (const bloodKey of BLOOD_STOCK_KEYS) {
+      const units = stock[bloodKey];
+      if (typeof units === "number") flat[`${group}.${bloodKey}`] = units;
+    }
+  }
+
+  return flat;
+};
+
+/**
+ * Rebuild the nested snapshot from flattened fields
+ */
+const toSnapshot = (flat: Record<string, number>): IInventorySnapshot => {
+  const snapshot: Record<string, Record<string, number>> = {
+    beds: {},
+    bloodStock: {},
+    bloodReserved: {},
+  };
+  for (const [field, value] of Object.entries(flat)) {
+    const [group, key] = field.split(".") as [string, string];
+    (snapshot[group] ??= {})[key] = value;
+  }
+
+  const toBloodStock = (units: Record<string, number> = {}): IBloodStock => ({
+    A_positive: units.A_positive ?? 0,
+    A_negative: units.A_negative ?? 0,
+    B_positive: units.B_positive ?? 0,
+    B_negative: units.B_negative ?? 0,
+    O_positive: units.O_positive ?? 0,
+    O_negative: units.O_negative ?? 0,
+    AB_positive: units.AB_positive ?? 0,
+    AB_negative: units.AB_negative ?? 0,
+  });
+
+  return {
+    beds: {
+      total: snapshot.beds?.total ?? 0,
+      available: snapshot.beds?.available ?? 0,
+      reserved: snapshot.beds?.reserved ?? 0,
+    },
+    bloodStock: toBloodStock(snapshot.bloodStock),
+    bloodReserved: toBloodStock(snapshot.bloodReserved),
+  };
+};
+
+/**
+ * Apply an inventory update and record what changed
+ * The update runs as a single findOneAndUpdate (so conditional filters stay atomic);
+ * the new values are derived from the previous document and the update itself.
+ * @returns the changed fields, or null if no hospital matched the filter
+ */
+const applyInventoryChange = async (
+  filter: Record<string, unknown>,
+  update: InventoryUpdate,
+  meta: InventoryChangeMeta
+): Promise<IInventoryChange[] | null> => {
+  const before = await Hospital.findOneAndUpdate(filter, update, {
+    new: false,
+    runValidators: true,
+  }).select("inventory location");
+
+  if (!before) return null;
+
+  const previous = flattenInventory(before.inventory);
+  const next = { ...previous };
+
+  for (const [path, value] of Object.entries(update.$set ?? {})) {
+    next[path.replace(/^inventory\./, "")] = value;
+  }
+  for (const [path, delta] of Object.entries(update.$inc ?? {})) {
+    const field = path.replace(/^inventory\./, "");
+    next[field] = (next[field] ?? 0) + delta;
+  }
+
+  const changes = Object.keys(next)
+    .filter((field) => next[field] !== previous[field])
+    .map((field) => ({
+      field,
+      from: previous[field] ?? 0,
+      to: next[field]!,
+    }));
+
+  if (changes.length === 0) return changes;
+
+  try {
+    const [lng, lat] = before.location.coordinates;
+    const { regionId } = await getSearchConfig(lng, lat, "hospital");
+
+    await InventoryLog.create({
+      hospitalId: before._id,
+      regionId,
+      changes,
+      snapshot: toSnapshot(next),
+      changedBy: meta.changedBy,
+      ...(meta.reason && { reason: meta.reason }),
+    });
+  } catch (error) {
+    // History must never block the inventory update itself
+    console.error(`Inventory log error for hospital ${before._id}:`, error);
+  }
+
+  return changes;
+};
+
+/**
+ * Get a hospital's inventory changes (newest first), optionally within a date range
+ */
+const getInventoryHistory = async (
+  hospitalId: string,
+  options: { from?: Date; to?: Date; field?: string; limit?: number } = {}
+): Promise<IInventoryLog[]> => {
+  const { from, to, field, limit = 100 } = options;
+
+  return InventoryLog.find({
+    hospitalId,
+    ...((from || to) && {
+      createdAt: {
+        ...(from && { $gte: from }),
+        ...(to && { $lte: to }),
+      },
+    }),
+    ...(field && { "changes.field": field }),
+  })
+    .sort({ createdAt: -1 })
+    .limit(limit)
+    .lean<IInventoryLog[]>();
+};
+
+/**
+ * Sum snapshots into one time-series point
+ */
+const toTimeSeriesPoint = (
+  bucket: Date,
+  snapshots: IInventorySnapshot[]
+): InventoryTimeSeriesPoint => {
+  const beds = { total: 0, available: 0, reserved: 0 };
+  const bloodStock: Record<string, number> = {};
+  const bloodReserved: Record<string, number> = {};
+
+  for (const snapshot of snapshots) {
+    beds.total += snapshot.beds?.total ?? 0;
+    beds.available += snapshot.beds?.available ?? 0;
+    beds.reserved += snapshot.beds?.reserved ?? 0;
+
+    for (const [bloodKey, units] of Object.entries(snapshot.bloodStock ?? {})) {
+      bloodStock[bloodKey] = (bloodStock[bloodKey] ?? 0) + units;
+    }
+    for (const [bloodKey, units] of Object.entries(snapshot.bloodReserved ?? {})) {
+      bloodReserved[bloodKey] = (bloodReserved[bloodKey] ?? 0) + units;
+    }
+  }
+
+  const occupied = Math.max(beds.total - beds.available - beds.reserved, 0);
+
+  return {
+    bucket,
+    beds: {
+      ...beds,
+      occupied,
+      occupancyRate:
+        beds.total > 0
+          ? Math.round(((occupied + beds.reserved) / beds.total) * 1000) / 1000
+          : 0,
+    },
+    bloodStock,
+    bloodReserved,
+    hospitals: snapshots.length,
+  };
+};
+
+/**
+ * Bed occupancy and blood stock over time, per hospital or per region
+ * 1. Last snapshot of each hospital before `from` (its state when the range starts)
+ * 2. Last snapshot of each hospital in every hour/day bucket of the range
+ * 3. Carry each hospital's state forward through buckets without changes,
+ *    then sum per hospital or per region
+ */
+const getInventoryTimeSeries = async (options: {
+  from: Date;
+  to: Date;
+  interval: TimeSeriesInterval;
+  groupBy: TimeSeriesGroupBy;
+  hospitalId?: string;
+  regionId?: string;
+}): Promise<InventoryTimeSeries[]> => {
+  const { from, to, interval, groupBy, hospitalId, regionId } = options;
+  const stepMs = INTERVAL_MS[interval];
+
+  const scope = {
+    ...(hospitalId && { hospitalId: new mongoose.Types.ObjectId(hospitalId) }),
+    ...(regionId && { regionId: new mongoose.Types.ObjectId(regionId) }),
+  };
+
+  type LastState = {
+    _id: { hospitalId: mongoose.Types.ObjectId; bucket?: Date };
+    regionId: mongoose.Types.ObjectId | null;
+    snapshot: IInventorySnapshot;
+  };
+
+  const [initialStates, bucketStates] = await Promise.all([
+    InventoryLog.aggregate<LastState>([
+      { $match: { ...scope, createdAt: { $lt: from } } },
+      { $sort: { createdAt: 1 } },
+      {
+        $group: {
+          _id: { hospitalId: "$hospitalId" },
+          regionId: { $last: "$regionId" },
+          snapshot: { $last: "$snapshot" },
+        },
+      },
+    ]),
+    InventoryLog.aggregate<LastState>([
+      { $match: { ...scope, createdAt: { $gte: from, $lte: to } } },
+      { $sort: { createdAt: 1 } },
+      {
+        $group: {
+          _id: {
+            hospitalId: "$hospitalId",
+            bucket: { $dateTrunc: { date: "$createdAt", unit: interval } },
+          },
+          regionId: { $last: "$regionId" },
+          snapshot: { $last: "$snapshot" },
+        },
+      },
+    ]),
+  ]);
+
+  // Bucket starts (UTC, same truncation as $dateTrunc)
+  const firstBucket = Math.floor(from.getTime() / stepMs) * stepMs;
+  const buckets: number[] = [];
+  for (let time = firstBucket; time <= to.getTime(); time += stepMs) {
+    buckets.push(time);
+  }
+
+  // hospitalId → bucket time → state
+  const changesByHospital = new Map<string, Map<number, LastState>>();
+  for (const state of bucketStates) {
+    const id = state._id.hospitalId.toString();
+    const byBucket = changesByHospital.get(id) ?? new Map<number, LastState>();
+    byBucket.set(state._id.bucket!.getTime(), state);
+    changesByHospital.set(id, byBucket);
+  }
+
+  const current = new Map<string, LastState>(
+    initialStates.map((state) => [state._id.hospitalId.toString(), state])
+  );
+
+  // series id → bucket index → snapshots
+  const seriesBuckets = new Map<string, IInventorySnapshot[][]>();
+  const seriesKey = (hospital: string, state: LastState): string =>
+    groupBy === "hospital" ? hospital : state.regionId?.toString() ?? "none";
+
+  buckets.forEach((bucket, index) => {
+    for (const [id, byBucket] of changesByHospital) {
+      const changed = byBucket.get(bucket);
+      if (changed) current.set(id, changed);
+    }
+
+    for (const [id, state] of current) {
+      const key = seriesKey(id, state);
+      const series =
+        seriesBuckets.get(key) ?? buckets.map((): IInventorySnapshot[] => []);
+      series[index]!.push(state.snapshot);
+      seriesBuckets.set(key, series);
+    }
+  });
+
+  // Names for the series
+  const ids = [...seriesBuckets.keys()].filter((key) => key !== "none");
+  const named =
+    groupBy === "hospital"
+      ? await Hospital.find({ _id: { $in: ids } }).select("name").lean()
+      : await ServiceRegion.find({ _id: { $in: ids } }).select("name").lean();
+  const names = new Map(named.map((doc) => [doc._id.toString(), doc.name]));
+
+  return [...seriesBuckets.entries()].map(([key, series]) => ({
+    id: key === "none" ? null : key,
+    name: key === "none" ? null : names.get(key) ?? null,
+    points: series
+      .map((snapshots, index) =>
+        toTimeSeriesPoint(new Date(buckets[index]!), snapshots)
+      )
+      .filter((point) => point.hospitals > 0),
+  }));
+};
+
+export { applyInventoryChange, getInventoryHistory, getInventoryTimeSeries };
@@ -0,0 +1,428 @@
+import { Reservation } from "../model/reservation.model.js";
+import type {
+  IReservation,
+  ReservationStatus,
+  ReservationType,
+} from "../model/reservation.model.js";
+import { Trip } from "../../trip/model/trip.model.js";
+import { toBloodStockKey } from "./hospital.service.js";
+import { applyInventoryChange } from "./inventory.service.js";
+import {
+  BED_RESERVATION_TTL_MINUTES,
+  BLOOD_RESERVATION_TTL_MINUTES,
+} from "../../../config/env.js";
+import { ApiError } from "../../../shared/utils/ApiError.js";
+import { getIO } from "../../../shared/infra/sockets/socket.config.js";
+import {
+  scheduleReservationExpiry,
+  cancelReservationExpiry,
+} from "../../../shared/infra/queues/reservation.queue.js";
+
+// changedBy recorded in the inventory history for holds/releases
+const RESERVATION_ACTOR = "system:reservation";
+
+/**
+ * Tell the hospital a reservation changed (reservation_updated)
+ */
+const emitReservationUpdated = (reservation: IReservation): void => {
+  try {
+    getIO()
+      .to(`hospital:${reservation.hospitalId.toString()}`)
+      .emit("reservation_updated", {
+        reservationId: reservation._id,
+        tripId: reservation.tripId,
+        type: reservation.type,
+        ...(reservation.bloodType && { bloodType: reservation.bloodType }),
+        quantity: reservation.quantity,
+        status: reservation.status,
+        expiresAt: reservation.expiresAt,
+        ...(reservation.releaseReason && {
+          releaseReason: reservation.releaseReason,
+        }),
+        timestamp: new Date().toISOString(),
+      });
+  } catch (socketError) {
+    console.error("Socket emission error:", socketError);
+  }
+};
+
+/**
+ * Hold a bed at the destination hospital for an incoming trip
+ * The bed moves from available to reserved in one conditional update,
+ * so two trips can never both get the last free bed.
+ * @returns the reservation, or null if the hospital has no free bed
+ */
+const reserveBedForTrip = async (
+  tripId: string,
+  hospitalId: string
+): Promise<IReservation | null> => {
+  // Idempotent: routing the same trip to the same hospital again keeps the existing hold
+  const existing = await Reservation.findOne({
+    tripId,
+    hospitalId,
+    type: "BED",
+    status: "HELD",
+  });
+  if (existing) return existing;
+
+  const held = await applyInventoryChange(
+    { _id: hospitalId, "inventory.beds.available": { $gt: 0 } },
+    {
+      $inc: {
+        "inventory.beds.available": -1,
+        "inventory.beds.reserved": 1,
+      },
+    },
+    { changedBy: RESERVATION_ACTOR, reason: `Bed held for trip ${tripId}` }
+  );
+
+  if (!held) {
+    console.warn(`⚠️ No free bed to hold at hospital ${hospitalId} for trip ${tripId}`);
+    return null;
+  }
+
+  const reservation = await Reservation.create({
+    hospitalId,
+    tripId,
+    type: "BED",
+    expiresAt: new Date(Date.now() + BED_RESERVATION_TTL_MINUTES * 60 * 1000),
+  });
+
+  await scheduleReservationExpiry(
+    reservation._id.toString(),
+    reservation.expiresAt
+  );
+
+  console.log(`🛏️ Bed held at hospital ${hospitalId} for trip ${tripId}`);
+  emitReservationUpdated(reservation);
+
+  return reservation;
+};
+
+/**
+ * Hold blood units of one type at the destination hospital for an incoming trip
+ * Units move from bloodStock to bloodReserved only if enough are on hand.
+ * @returns the reservation, or null if the hospital does not have enough units
+ */
+const reserveBloodForTrip = async (
+  tripId: string,
+  hospitalId: string,
+  bloodType: string,
+  units: number
+): Promise<IReservation | null> => {
+  const bloodKey = toBloodStockKey(bloodType);
+
+  const existing = await Reservation.findOne({
+    tripId,
+    hospitalId,
+    type: "BLOOD",
+    bloodType: bloodKey,
+    status: "HELD",
+  });
+  if (existing) return existing;
+
+  const held = await applyInventoryChange(
+    { _id: hospitalId, [`inventory.bloodStock.${bloodKey}`]: { $gte: units } },
+    {
+      $inc: {
+        [`inventory.bloodStock.${bloodKey}`]: -units,
+        [`inventory.bloodReserved.${bloodKey}`]: units,
+      },
+    },
+    { changedBy: RESERVATION_ACTOR, reason: `Blood held for trip ${tripId}` }
+  );
+
+  if (!held) {
+    console.warn(
+      `⚠️ Not enough ${bloodKey} units (${units}) to hold at hospital ${hospitalId} for trip ${tripId}`
+    );
+    return null;
+  }
+
+  const reservation = await Reservation.create({
+    hospitalId,
+    tripId,
+    type: "BLOOD",
+    bloodType: bloodKey,
+    quantity: units,
+    expiresAt: new Date(Date.now() + BLOOD_RESERVATION_TTL_MINUTES * 60 * 1000),
+  });
+
+  await scheduleReservationExpiry(
+    reservation._id.toString(),
+    reservation.expiresAt
+  );
+
+  console.log(
+    `🩸 ${units} unit(s) of ${bloodKey} held at hospital ${hospitalId} for trip ${tripId}`
+  );
+  emitReservationUpdated(reservation);
+
+  return reservation;
+};
+
+/**
+ * Hold everything the trip needs at its destination hospital (a bed, plus blood if requested)
+ */
+const reserveTripResources = async (
+  tripId: string,
+  hospitalId: string
+): Promise<void> => {
+  const trip = await Trip.findById(tripId).select("bloodRequirement").lean();
+
+  await reserveBedForTrip(tripId, hospitalId);
+
+  if (trip?.bloodRequirement) {
+    await reserveBloodForTrip(
+      tripId,
+      hospitalId,
+      trip.bloodRequirement.bloodType,
+      trip.bloodRequirement.units
+    );
+  }
+};
+
+/**
+ * Give a held reservation back to the hospital's stock
+ * Only a HELD reservation can be released, so concurrent cancel/expiry run once.
+ */
+const releaseReservation = async (
+  reservationId: string,
+  status: Extract<ReservationStatus, "RELEASED" | "EXPIRED">,
+  reason: string
+): Promise<IReservation | null> => {
+  const reservation = await Reservation.findOneAndUpdate(
+    { _id: reservationId, status: "HELD" },
+    { $set: { status, releasedAt: new Date(), releaseReason: reason } },
+    { new: true }
+  );
+  if (!reservation) return null;
+
+  const meta = {
+    changedBy: RESERVATION_ACTOR,
+    reason: `${reason} (trip ${reservation.tripId})`,
+  };
+
+  if (reservation.type === "BED") {
+    await applyInventoryChange(
+      { _id: reservation.hospitalId },
+      {
+        $inc: {
+          "inventory.beds.available": reservation.quantity,
+          "inventory.beds.reserved": -reservation.quantity,
+        },
+      },
+      meta
+    );
+  } else if (reservation.bloodType) {
+    await applyInventoryChange(
+      { _id: reservation.hospitalId },
+      {
+        $inc: {
+          [`inventory.bloodStock.${reservation.bloodType}`]: reservation.quantity,
+          [`inventory.bloodReserved.${reservation.bloodType}`]: -reservation.quantity,
+        },
+      },
+      meta
+    );
+  }
+
+  if (status === "RELEASED") {
+    await cancelReservationExpiry(reservationId);
+  }
+
+  console.log(
+    `🛏️ Reservation ${reservationId} ${status.toLowerCase()} (${reason})`
+  );
+  emitReservationUpdated(reservation);
+
+  return reservation;
+};
+
+/**
+ * Release everything held for a trip (cancelled, or re-routed away from `hospitalId`)
+ */
+const releaseTripReservations = async (
+  tripId: string,
+  reason: string,
+  hospitalId?: string
+): Promise<void> => {
+  const reservations = await Reservation.find({
+    tripId,
+    status: "HELD",
+    ...(hospitalId && { hospitalId }),
+  }).select("_id");
+
+  for (const reservation of reservations) {
+    await releaseReservation(reservation._id.toString(), "RELEASED", reason);
+  }
+};
+
+/**
+ * Release a reservation whose TTL elapsed (run by the expiry job)
+ */
+const expireReservation = async (reservationId: string): Promise<void> => {
+  await releaseReservation(reservationId, "EXPIRED", "Reservation expired");
+};
+
+/**
+ * Patient handed over: the held bed becomes an occupied bed
+ * (it leaves reserved and does not go back to available)
+ */
+const occupyReservedBed = async (tripId: string): Promise<void> => {
+  const reservation = await Reservation.findOneAndUpdate(
+    { tripId, type: "BED", status: "HELD" },
+    { $set: { status: "CONSUMED", consumedAt: new Date() } },
+    { new: true }
+  );
+  if (!reservation) return;
+
+  await applyInventoryChange(
+    { _id: reservation.hospitalId },
+    { $inc: { "inventory.beds.reserved": -reservation.quantity } },
+    { changedBy: RESERVATION_ACTOR, reason: `Bed occupied by trip ${tripId}` }
+  );
+  await cancelReservationExpiry(reservation._id.toString());
+
+  console.log(
+    `🛏️ Bed at hospital ${reservation.hospitalId} occupied by trip ${tripId}`
+  );
+  emitReservationUpdated(reservation);
+};
+
+/**
+ * Record the blood units actually used at handover
+ * Unused held units go back to stock; using more than was held takes the
+ * extra units from stock (refused if there are not enough).
+ */
+const consumeBloodReservation = async (
+  reservationId: string,
+  hospitalId: string,
+  unitsUsed: number,
+  consumedBy: string
+): Promise<IReservation> => {
+  const reservation = await Reservation.findOne({
+    _id: reservationId,
+    hospitalId,
+  });
+  if (!reservation) {
+    throw new ApiError(404, "Reservation not found");
+  }
+
+  if (reservation.type !== "BLOOD" || !reservation.bloodType) {
+    throw new ApiError(400, "Only blood reservations can be consumed");
+  }
+
+  if (reservation.status !== "HELD") {
+    throw new ApiError(
+      409,
+      `Reservation is no longer held (${reservation.status})`
+    );
+  }
+
+  const bloodKey = reservation.bloodType;
+  const extraUnits = Math.max(unitsUsed - reservation.quantity, 0);
+
+  // Take any extra units first, so a shortage leaves the reservation untouched
+  if (extraUnits > 0) {
+    const taken = await applyInventoryChange(
+      {
+        _id: hospitalId,
+        [`inventory.bloodStock.${bloodKey}`]: { $gte: extraUnits },
+      },
+      { $inc: { [`inventory.bloodStock.${bloodKey}`]: -extraUnits } },
+      {
+        changedBy: consumedBy,
+        reason: `Blood used beyond reservation (trip ${reservation.tripId})`,
+      }
+    );
+    if (!taken) {
+      throw new ApiError(
+        409,
+        `Not enough ${bloodKey} units in stock to record ${unitsUsed} used`
+      );
+    }
+  }
+
+  const consumed = await Reservation.findOneAndUpdate(
+    { _id: reservationId, status: "HELD" },
+    {
+      $set: {
+        status: "CONSUMED",
+        consumedAt: new Date(),
+        consumedQuantity: unitsUsed,
+        consumedBy,
+      },
+    },
+    { new: true }
+  );
+
+  if (!consumed) {
+    // Released or expired in the meantime: give the extra units back
+    if (extraUnits > 0) {
+      await applyInventoryChange(
+        { _id: hospitalId },
+        { $inc: { [`inventory.bloodStock.${bloodKey}`]: extraUnits } },
+        {
+          changedBy: consumedBy,
+          reason: `Reservation no longer held, extra units returned (trip ${reservation.tripId})`,
+        }
+      );
+    }
+    throw new ApiError(409, "Reservation is no longer held");
+  }
+
+  const unusedUnits = Math.max(consumed.quantity - unitsUsed, 0);
+  await applyInventoryChange(
+    { _id: hospitalId },
+    {
+      $inc: {
+        [`inventory.bloodReserved.${bloodKey}`]: -consumed.quantity,
+        [`inventory.bloodStock.${bloodKey}`]: unusedUnits,
+      },
+    },
+    {
+      changedBy: consumedBy,
+      reason: `${unitsUsed} unit(s) used at handover (trip ${consumed.tripId})`,
+    }
+  );
+  await cancelReservationExpiry(reservationId);
+
+  console.log(
+    `🩸 Trip ${consumed.tripId}: ${unitsUsed} unit(s) of ${bloodKey} used, ${unusedUnits} returned to stock`
+  );
+  emitReservationUpdated(consumed);
+
+  return consumed;
+};
+
+/**
+ * Get a hospital's reservations (newest first), held ones by default
+ */
+const getHospitalReservations = async (
+  hospitalId: string,
+  filters: { status?: ReservationStatus; type?: ReservationType } = {}
+): Promise<IReservation[]> => {
+  return Reservation.find({
+    hospitalId,
+    status: filters.status ?? "HELD",
+    ...(filters.type && { type: filters.type }),
+  })
+    .sort({ createdAt: -1 })
+    .limit(100)
+    .populate(
+      "tripId",
+      "status triageLevel isTrauma patientSnapshot.name ambulanceId"
+    );
+};
+
+export {
+  reserveBedForTrip,
+  reserveBloodForTrip,
+  reserveTripResources,
+  consumeBloodReservation,
+  releaseTripReservations,
+  expireReservation,
+  occupyReservedBed,
+  getHospitalReservations,
+};
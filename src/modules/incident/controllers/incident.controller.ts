@@ -0,0 +1,174 @@
+// src/modules/incident/controllers/incident.controller.ts
+
+import type { Request, Response } from "express";
+import mongoose from "mongoose";
+import { asyncHandler } from "../../../shared/utils/AsyncHandler.js";
+import { ApiError } from "../../../shared/utils/ApiError.js";
+import { ApiResponse } from "../../../shared/utils/ApiResponce.js";
+import {
+  createIncidentSchema,
+  requestIncidentUnitsSchema,
+  incidentListQuerySchema,
+} from "../incident.dto/incident.dto.js";
+import {
+  createIncident,
+  requestIncidentUnits,
+  getIncidentDetails,
+  closeIncident,
+} from "../services/incident.service.js";
+import { Incident } from "../model/incident.model.js";
+
+/**
+ * @description Declare a mass-casualty incident and request N units to its location
+ * @route POST /api/v2/incident
+ * @access Private (Admin)
+ */
+const declareIncident = asyncHandler(async (req: Request, res: Response) => {
+  const adminId = req.admin?._id;
+  if (!adminId) {
+    throw new ApiError(403, "Forbidden - Admin access required");
+  }
+
+  const validationResult = createIncidentSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    throw new ApiError(400, "Validation failed", validationResult.error.issues);
+  }
+
+  const { description, address, ...rest } = validationResult.data;
+
+  const { incident, trips } = await createIncident({
+    ...rest,
+    ...(description && { description }),
+    ...(address && { address }),
+    createdBy: `admin:${adminId.toString()}`,
+  });
+
+  res
+    .status(201)
+    .json(
+      new ApiResponse(
+        201,
+        { incident, trips },
+        `Incident declared. Dispatching ${trips.length} unit(s)...`
+      )
+    );
+});
+
+/**
+ * @description Request additional units for an active incident
+ * @route POST /api/v2/incident/:incidentId/units
+ * @access Private (Admin)
+ */
+const addIncidentUnits = asyncHandler(async (req: Request, res: Response) => {
+  const adminId = req.admin?._id;
+  if (!adminId) {
+    throw new ApiError(403, "Forbidden - Admin access required");
+  }
+
+  const { incidentId } = req.params;
+  if (!incidentId || !mongoose.Types.ObjectId.isValid(incidentId)) {
+    throw new ApiError(400, "Valid incident ID is required");
+  }
+
+  const validationResult = requestIncidentUnitsSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    throw new ApiError(400, "Validation failed", validationResult.error.issues);
+  }
+
+  const { incident, trips } = await requestIncidentUnits(
+    incidentId,
+    validationResult.data.units,
+    `admin:${adminId.toString()}`
+  );
+
+  res
+    .status(201)
+    .json(
+      new ApiResponse(
+        201,
+        { incident, trips },
+        `Dispatching ${trips.length} additional unit(s)...`
+      )
+    );
+});
+
+/**
+ * @description List incidents (optionally by status)
+ * @route GET /api/v2/incident
+ * @access Private (Admin)
+ */
+const getAllIncidents = asyncHandler(async (req: Request, res: Response) => {
+  const validationResult = incidentListQuerySchema.safeParse(req.query);
+  if (!validationResult.success) {
+    throw new ApiError(400, "Validation failed", validationResult.error.issues);
+  }
+
+  const { status, limit } = validationResult.data;
+
+  const incidents = await Incident.find(status ? { status } : {})
+    .sort({ createdAt: -1 })
+    .limit(limit)
+    .lean();
+
+  res
+    .status(200)
+    .json(
+      new ApiResponse(
+        200,
+        { count: incidents.length, incidents },
+        "Incidents retrieved successfully"
+      )
+    );
+});
+
+/**
+ * @description Get incident details with its trips and status summary
+ * @route GET /api/v2/incident/:incidentId
+ * @access Private (Admin)
+ */
+const getIncidentById = asyncHandler(async (req: Request, res: Response) => {
+  const { incidentId } = req.params;
+  if (!incidentId || !mongoose.Types.ObjectId.isValid(incidentId)) {
+    throw new ApiError(400, "Valid incident ID is required");
+  }
+
+  const details = await getIncidentDetails(incidentId);
+
+  res
+    .status(200)
+    .json(new ApiResponse(200, details, "Incident retrieved successfully"));
+});
+
+/**
+ * @description Close an incident (trips still searching are cancelled)
+ * @route PATCH /api/v2/incident/:incidentId/close
+ * @access Private (Admin)
+ */
+const closeIncidentById = asyncHandler(async (req: Request, res: Response) => {
+  const adminId = req.admin?._id;
+  if (!adminId) {
+    throw new ApiError(403, "Forbidden - Admin access required");
+  }
+
+  const { incidentId } = req.params;
+  if (!incidentId || !mongoose.Types.ObjectId.isValid(incidentId)) {
+    throw new ApiError(400, "Valid incident ID is required");
+  }
+
+  const incident = await closeIncident(
+    incidentId,
+    `admin:${adminId.toString()}`
+  );
+
+  res
+    .status(200)
+    .json(new ApiResponse(200, incident, "Incident closed successfully"));
+});
+
+export {
+  declareIncident,
+  addIncidentUnits,
+  getAllIncidents,
+  getIncidentById,
+  closeIncidentById,
+};
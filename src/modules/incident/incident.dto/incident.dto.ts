@@ -0,0 +1,52 @@
+// src/modules/incident/incident.dto/incident.dto.ts
+
+import { z } from "zod";
+import { AMBULANCE_CAPABILITIES } from "../../ambulance/model/ambulance.model.js";
+import { TRIAGE_LEVELS } from "../../trip/model/trip.model.js";
+
+// Location schema
+const locationSchema = z.tuple([
+  z.number().min(-180).max(180), // longitude
+  z.number().min(-90).max(90), // latitude
+]);
+
+// N units of a given capability
+const unitRequestSchema = z.object({
+  capability: z.enum(AMBULANCE_CAPABILITIES).default("BLS"),
+  count: z.number().int().min(1).max(50),
+});
+
+const unitRequestsSchema = z
+  .array(unitRequestSchema)
+  .min(1, "At least one unit request is required")
+  .refine(
+    (units) => units.reduce((total, unit) => total + unit.count, 0) <= 50,
+    "Cannot request more than 50 units at once"
+  );
+
+// Create incident schema
+export const createIncidentSchema = z.object({
+  title: z.string().trim().min(3, "Title must be at least 3 characters"),
+  description: z.string().trim().optional(),
+  contactPhone: z.string().trim().min(10, "Contact phone must be at least 10 digits"),
+  address: z.string().trim().optional(),
+  coordinates: locationSchema,
+  triageLevel: z.enum(TRIAGE_LEVELS).default("P1"),
+  units: unitRequestsSchema,
+});
+
+// Request more units for an existing incident
+export const requestIncidentUnitsSchema = z.object({
+  units: unitRequestsSchema,
+});
+
+// Query schema for incident listing
+export const incidentListQuerySchema = z.object({
+  status: z.enum(["ACTIVE", "CLOSED"]).optional(),
+  limit: z.coerce.number().min(1).max(100).default(20),
+});
+
+// Type exports
+export type CreateIncidentInput = z.infer<typeof createIncidentSchema>;
+export type RequestIncidentUnitsInput = z.infer<typeof requestIncidentUnitsSchema>;
+export type IncidentListQuery = z.infer<typeof incidentListQuerySchema>;
@@ -0,0 +1,123 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { AMBULANCE_CAPABILITIES } from "../../ambulance/model/ambulance.model.js";
+import type { AmbulanceCapability } from "../../ambulance/model/ambulance.model.js";
+import { TRIAGE_LEVELS } from "../../trip/model/trip.model.js";
+import type { TriageLevel } from "../../trip/model/trip.model.js";
+
+export type IncidentStatus = "ACTIVE" | "CLOSED";
+
+// "N units of class X" requested for the incident (one trip is created per unit)
+export interface IIncidentUnitRequest {
+  capability: AmbulanceCapability;
+  count: number;
+  requestedAt: Date;
+  requestedBy: string; // "admin:ID"
+}
+
+// Patients routed to a hospital, used to spread casualties by free beds
+export interface IHospitalAllocation {
+  hospitalId: mongoose.Types.ObjectId;
+  patients: number;
+}
+
+export interface IIncident extends Document {
+  title: string;
+  description?: string;
+  contactPhone: string; // On-scene contact, used in the casualty patient snapshots
+  address?: string;
+  location: {
+    type: "Point";
+    coordinates: [number, number]; // [lng, lat]
+  };
+
+  status: IncidentStatus;
+  triageLevel: TriageLevel;
+
+  unitRequests: IIncidentUnitRequest[];
+  hospitalAllocations: IHospitalAllocation[];
+
+  createdBy: string;
+  closedAt?: Date;
+  closedBy?: string;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const IncidentSchema = new Schema<IIncident>(
+  {
+    title: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    description: { type: String, trim: true },
+    contactPhone: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    address: { type: String },
+    location: {
+      type: {
+        type: String,
+        enum: ["Point"],
+        required: true,
+        default: "Point",
+      },
+      coordinates: {
+        type: [Number],
+        required: true,
+      },
+    },
+
+    status: {
+      type: String,
+      enum: ["ACTIVE", "CLOSED"],
+      default: "ACTIVE",
+      index: true,
+    },
+    triageLevel: {
+      type: String,
+      enum: TRIAGE_LEVELS,
+      default: "P1",
+    },
+
+    unitRequests: [
+      {
+        capability: {
+          type: String,
+          enum: AMBULANCE_CAPABILITIES,
+          required: true,
+        },
+        count: { type: Number, required: true, min: 1 },
+        requestedAt: { type: Date, default: Date.now },
+        requestedBy: { type: String, required: true },
+        _id: false,
+      },
+    ],
+
+    hospitalAllocations: [
+      {
+        hospitalId: {
+          type: Schema.Types.ObjectId,
+          ref: "Hospital",
+          required: true,
+        },
+        patients: { type: Number, default: 0 },
+        _id: false,
+      },
+    ],
+
+    createdBy: { type: String, required: true },
+    closedAt: { type: Date },
+    closedBy: { type: String },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+IncidentSchema.index({ location: "2dsphere" });
+
+export const Incident = mongoose.model<IIncident>("Incident", IncidentSchema);
@@ -0,0 +1,69 @@
+import { Router } from "express";
+import { z } from "zod";
+import { validate } from "../../../shared/middlewares/validate.middleware.js";
+import { verifyAdminJWT } from "../../../shared/middlewares/auth.middleware.js";
+import {
+  createIncidentSchema,
+  requestIncidentUnitsSchema,
+} from "../incident.dto/incident.dto.js";
+import {
+  declareIncident,
+  addIncidentUnits,
+  getAllIncidents,
+  getIncidentById,
+  closeIncidentById,
+} from "../controllers/incident.controller.js";
+
+const router = Router();
+
+// ============================================
+// ADMIN ROUTES
+// ============================================
+
+/**
+ * @route   POST /api/v2/incident
+ * @desc    Declare a mass-casualty incident and request units (one trip per unit)
+ * @access  Private (Admin)
+ */
+router.post(
+  "/",
+  verifyAdminJWT,
+  validate(z.object({ body: createIncidentSchema })),
+  declareIncident
+);
+
+/**
+ * @route   GET /api/v2/incident
+ * @desc    List incidents
+ * @access  Private (Admin)
+ * @query   status (ACTIVE | CLOSED), limit
+ */
+router.get("/", verifyAdminJWT, getAllIncidents);
+
+/**
+ * @route   GET /api/v2/incident/:incidentId
+ * @desc    Get incident with its trips and status summary
+ * @access  Private (Admin)
+ */
+router.get("/:incidentId", verifyAdminJWT, getIncidentById);
+
+/**
+ * @route   POST /api/v2/incident/:incidentId/units
+ * @desc    Request additional units for an active incident
+ * @access  Private (Admin)
+ */
+router.post(
+  "/:incidentId/units",
+  verifyAdminJWT,
+  validate(z.object({ body: requestIncidentUnitsSchema })),
+  addIncidentUnits
+);
+
+/**
+ * @route   PATCH /api/v2/incident/:incidentId/close
+ * @desc    Close an incident (cancels trips still searching)
+ * @access  Private (Admin)
+ */
+router.patch("/:incidentId/close", verifyAdminJWT, closeIncidentById);
+
+export const incidentRoutes: ReturnType<typeof Router> = router;
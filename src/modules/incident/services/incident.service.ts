@@ -0,0 +1,427 @@
+import mongoose from "mongoose";
+import { Incident } from "../model/incident.model.js";
+import type { IIncident, IHospitalAllocation } from "../model/incident.model.js";
+import { Trip } from "../../trip/model/trip.model.js";
+import type { ITrip, TripStatus } from "../../trip/model/trip.model.js";
+import type { AmbulanceCapability } from "../../ambulance/model/ambulance.model.js";
+import type { IHospital } from "../../hospital/model/hospital.model.js";
+import { findNearbyAmbulances } from "../../ambulance/services/ambulance.service.js";
+import { findNearbyHospitals } from "../../hospital/services/hospital.service.js";
+import { startTripDispatch } from "../../trip/services/dispatch.service.js";
+import { cancelTrip } from "../../trip/services/trip.service.js";
+import { notifyIncomingPatient } from "../../hospital/services/hospital.handshake.js";
+import { reserveBedForTrip } from "../../hospital/services/reservation.service.js";
+import { getSearchConfig } from "../../region/services/region.service.js";
+import { ApiError } from "../../../shared/utils/ApiError.js";
+import { getIO } from "../../../shared/infra/sockets/socket.config.js";
+
+interface UnitRequestInput {
+  capability: AmbulanceCapability;
+  count: number;
+}
+
+interface CreateIncidentInput {
+  title: string;
+  description?: string;
+  contactPhone: string;
+  address?: string;
+  coordinates: [number, number];
+  triageLevel?: ITrip["triageLevel"];
+  units: UnitRequestInput[];
+  createdBy: string; // "admin:ID"
+}
+
+export interface IncidentSummary {
+  unitsRequested: number;
+  trips: number;
+  byStatus: Partial<Record<TripStatus, number>>;
+  unassigned: number; // Trips still SEARCHING for an ambulance
+}
+
+const ACTIVE_TRIP_STATUSES: TripStatus[] = [
+  "SEARCHING",
+  "ACCEPTED",
+  "ARRIVED_PICKUP",
+  "EN_ROUTE_HOSPITAL",
+  "ARRIVED_HOSPITAL",
+];
+
+/**
+ * Spread `patientCount` casualties across nearby hospitals by free beds
+ * Each patient goes to the hospital with the most beds left (nearest wins ties).
+ * Beds of patients already routed are held (see reserveBedForTrip), so they are
+ * no longer counted as available.
+ * @returns one hospital per patient (null when no hospital with beds was found)
+ */
+const allocateHospitals = async (
+  incident: IIncident,
+  patientCount: number
+): Promise<(IHospital | null)[]> => {
+  const [lng, lat] = incident.location.coordinates;
+  const nearbyHospitals = await findNearbyHospitals(lng, lat, undefined, {
+    requireBeds: true,
+  });
+
+  // Nearest first, so the stable sort below keeps nearer hospitals ahead on ties
+  const pool = nearbyHospitals
+    .filter((result) => result.hospitalData !== null)
+    .map((result) => ({
+      hospital: result.hospitalData!,
+      bedsLeft: result.hospitalData!.inventory.beds.available,
+    }));
+
+  const allocation: (IHospital | null)[] = [];
+  for (let i = 0; i < patientCount; i++) {
+    const best = [...pool]
+      .filter((entry) => entry.bedsLeft > 0)
+      .sort((a, b) => b.bedsLeft - a.bedsLeft)[0];
+
+    if (!best) {
+      allocation.push(null);
+      continue;
+    }
+
+    best.bedsLeft -= 1;
+    allocation.push(best.hospital);
+  }
+
+  return allocation;
+};
+
+/**
+ * Create one SEARCHING trip per requested unit and start dispatching them
+ * 1. Distribute the casualties across hospitals by free beds
+ * 2. Create the trips (no patient account, placeholder snapshot)
+ * 3. Search ambulances once per capability and dispatch every trip to that pool
+ *    (the per-ambulance offer lock makes the offers fan out to different units)
+ */
+const dispatchIncidentUnits = async (
+  incident: IIncident,
+  units: UnitRequestInput[],
+  requestedBy: string
+): Promise<ITrip[]> => {
+  const incidentId = incident._id as mongoose.Types.ObjectId;
+  const [lng, lat] = incident.location.coordinates;
+  const totalUnits = units.reduce((total, unit) => total + unit.count, 0);
+
+  const hospitals = await allocateHospitals(incident, totalUnits);
+  let casualtyNumber = await Trip.countDocuments({ incidentId });
+
+  const tripsByCapability = new Map<AmbulanceCapability, ITrip[]>();
+  const createdTrips: ITrip[] = [];
+
+  for (const unit of units) {
+    for (let i = 0; i < unit.count; i++) {
+      casualtyNumber += 1;
+      const hospital = hospitals[createdTrips.length] ?? null;
+
+      const trip = await Trip.create({
+        userId: null,
+        incidentId,
+        status: "SEARCHING",
+        triageLevel: incident.triageLevel,
+        requiredCapability: unit.capability,
+        pickup: {
+          ...(incident.address && { address: incident.address }),
+          coordinates: incident.location.coordinates,
+        },
+        ...(hospital && {
+          dropoff: {
+            address: hospital.address,
+            coordinates: hospital.location.coordinates,
+          },
+          destinationHospitalId: hospital._id,
+        }),
+        patientSnapshot: {
+          userId: `incident:${incidentId.toString()}`,
+          name: `Casualty #${casualtyNumber} - ${incident.title}`,
+          phone: incident.contactPhone,
+          bloodGroup: "Unknown",
+          medicalHistory: "",
+        },
+        timeline: [
+          {
+            status: "SEARCHING",
+            timestamp: new Date(),
+            location: incident.location.coordinates,
+            updatedBy: requestedBy,
+          },
+        ],
+      });
+
+      if (hospital) {
+        await reserveBedForTrip(
+          trip._id.toString(),
+          (hospital._id as mongoose.Types.ObjectId).toString()
+        );
+        await notifyIncomingPatient(trip._id.toString());
+      }
+
+      createdTrips.push(trip);
+      tripsByCapability.set(unit.capability, [
+        ...(tripsByCapability.get(unit.capability) ?? []),
+        trip,
+      ]);
+    }
+  }
+
+  // Record requests and hospital allocations on the incident
+  const allocationCounts = new Map<string, number>();
+  for (const hospital of hospitals) {
+    if (!hospital) continue;
+    const id = (hospital._id as mongoose.Types.ObjectId).toString();
+    allocationCounts.set(id, (allocationCounts.get(id) ?? 0) + 1);
+  }
+
+  for (const [hospitalId, patients] of allocationCounts) {
+    const existing = incident.hospitalAllocations.find(
+      (allocation) => allocation.hospitalId.toString() === hospitalId
+    );
+    if (existing) {
+      existing.patients += patients;
+    } else {
+      incident.hospitalAllocations.push({
+        hospitalId: new mongoose.Types.ObjectId(hospitalId),
+        patients,
+      } as IHospitalAllocation);
+    }
+  }
+
+  const requestedAt = new Date();
+  incident.unitRequests.push(
+    ...units.map((unit) => ({ ...unit, requestedAt, requestedBy }))
+  );
+  await incident.save();
+
+  // Dispatch: one search per capability, big enough for every trip of that class
+  const { candidateCount } = await getSearchConfig(lng, lat, "ambulance");
+
+  for (const [capability, trips] of tripsByCapability) {
+    const candidates = await findNearbyAmbulances(
+      lng,
+      lat,
+      trips.length + candidateCount,
+      { requiredCapability: capability }
+    );
+
+    for (const trip of trips) {
+      await startTripDispatch(trip._id.toString(), candidates);
+    }
+  }
+
+  if (hospitals.some((hospital) => hospital === null)) {
+    console.warn(
+      `⚠️ Incident ${incidentId}: not enough free beds nearby, some casualties have no destination hospital`
+    );
+  }
+
+  return createdTrips;
+};
+
+/**
+ * Count trips of an incident by status
+ */
+const getIncidentSummary = async (
+  incident: IIncident
+): Promise<IncidentSummary> => {
+  const counts = await Trip.aggregate<{ _id: TripStatus; count: number }>([
+    { $match: { incidentId: incident._id } },
+    { $group: { _id: "$status", count: { $sum: 1 } } },
+  ]);
+
+  const byStatus: Partial<Record<TripStatus, number>> = {};
+  let trips = 0;
+  for (const { _id, count } of counts) {
+    byStatus[_id] = count;
+    trips += count;
+  }
+
+  return {
+    unitsRequested: incident.unitRequests.reduce(
+      (total, request) => total + request.count,
+      0
+    ),
+    trips,
+    byStatus,
+    unassigned: byStatus.SEARCHING ?? 0,
+  };
+};
+
+/**
+ * Emit incident_updated (with the summary) to the incident room and admins
+ */
+const emitIncidentUpdated = async (
+  incident: IIncident,
+  event: string
+): Promise<void> => {
+  try {
+    const io = getIO();
+    const incidentId = (incident._id as mongoose.Types.ObjectId).toString();
+    const summary = await getIncidentSummary(incident);
+
+    io.to(`incident:${incidentId}`)
+      .to("admin-room")
+      .emit("incident_updated", {
+        incidentId,
+        event,
+        status: incident.status,
+        summary,
+        timestamp: new Date().toISOString(),
+      });
+
+    console.log(`📡 Emitted incident_updated (${event}) for incident ${incidentId}`);
+  } catch (socketError) {
+    console.error("Socket emission error:", socketError);
+  }
+};
+
+/**
+ * Declare a mass-casualty incident and dispatch the requested units
+ */
+const createIncident = async (
+  input: CreateIncidentInput
+): Promise<{ incident: IIncident; trips: ITrip[] }> => {
+  const {
+    title,
+    description,
+    contactPhone,
+    address,
+    coordinates,
+    triageLevel,
+    units,
+    createdBy,
+  } = input;
+
+  const incident = await Incident.create({
+    title,
+    ...(description && { description }),
+    contactPhone,
+    ...(address && { address }),
+    location: { type: "Point", coordinates },
+    ...(triageLevel && { triageLevel }),
+    createdBy,
+  });
+
+  const trips = await dispatchIncidentUnits(incident, units, createdBy);
+
+  console.log(
+    `🚨 Incident ${incident._id} "${title}" declared, ${trips.length} unit(s) requested`
+  );
+
+  await emitIncidentUpdated(incident, "created");
+
+  return { incident, trips };
+};
+
+/**
+ * Request more units for an active incident
+ */
+const requestIncidentUnits = async (
+  incidentId: string,
+  units: UnitRequestInput[],
+  requestedBy: string
+): Promise<{ incident: IIncident; trips: ITrip[] }> => {
+  const incident = await Incident.findById(incidentId);
+  if (!incident) {
+    throw new ApiError(404, "Incident not found");
+  }
+
+  if (incident.status !== "ACTIVE") {
+    throw new ApiError(409, "Incident is closed");
+  }
+
+  const trips = await dispatchIncidentUnits(incident, units, requestedBy);
+
+  await emitIncidentUpdated(incident, "units_requested");
+
+  return { incident, trips };
+};
+
+/**
+ * Get an incident with its trips and a status summary
+ */
+const getIncidentDetails = async (incidentId: string): Promise<any> => {
+  const incident = await Incident.findById(incidentId).populate(
+    "hospitalAllocations.hospitalId",
+    "name address phone inventory.beds"
+  );
+  if (!incident) {
+    throw new ApiError(404, "Incident not found");
+  }
+
+  const [trips, summary] = await Promise.all([
+    Trip.find({ incidentId })
+      .sort({ createdAt: 1 })
+      .populate("ambulanceId", "driverName vehicleNumber capabilityClass")
+      .populate("destinationHospitalId", "name address")
+      .lean(),
+    getIncidentSummary(incident),
+  ]);
+
+  return { incident, summary, trips };
+};
+
+/**
+ * Close an incident
+ * Trips still SEARCHING are cancelled, trips already underway run to completion.
+ */
+const closeIncident = async (
+  incidentId: string,
+  closedBy: string
+): Promise<IIncident> => {
+  const incident = await Incident.findOneAndUpdate(
+    { _id: incidentId, status: "ACTIVE" },
+    { $set: { status: "CLOSED", closedAt: new Date(), closedBy } },
+    { new: true }
+  );
+
+  if (!incident) {
+    const exists = await Incident.exists({ _id: incidentId });
+    if (!exists) {
+      throw new ApiError(404, "Incident not found");
+    }
+    throw new ApiError(409, "Incident is already closed");
+  }
+
+  const searchingTrips = await Trip.find({
+    incidentId,
+    status: "SEARCHING",
+  }).select("_id");
+
+  for (const trip of searchingTrips) {
+    try {
+      await cancelTrip(trip._id.toString(), closedBy);
+    } catch (error) {
+      // Trip may have been accepted in the meantime, it continues normally
+      console.error(`Failed to cancel incident trip ${trip._id}:`, error);
+    }
+  }
+
+  await emitIncidentUpdated(incident, "closed");
+
+  return incident;
+};
+
+/**
+ * Check whether an ambulance is currently serving one of the incident's trips
+ */
+const isAmbulanceOnIncident = async (
+  incidentId: string,
+  ambulanceId: string
+): Promise<boolean> => {
+  const trip = await Trip.exists({
+    incidentId,
+    ambulanceId,
+    status: { $in: ACTIVE_TRIP_STATUSES },
+  });
+  return trip !== null;
+};
+
+export {
+  createIncident,
+  requestIncidentUnits,
+  getIncidentDetails,
+  getIncidentSummary,
+  closeIncident,
+  isAmbulanceOnIncident,
+};
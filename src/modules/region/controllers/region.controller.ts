@@ -0,0 +1,147 @@
+import type { Request, Response } from "express";
+import mongoose from "mongoose";
+import { asyncHandler } from "../../../shared/utils/AsyncHandler.js";
+import { ApiError } from "../../../shared/utils/ApiError.js";
+import { ApiResponse } from "../../../shared/utils/ApiResponce.js";
+import { ServiceRegion } from "../model/region.model.js";
+import {
+  createRegionSchema,
+  updateRegionSchema,
+  resolveRegionQuerySchema,
+} from "../region.dto/region.dto.js";
+import { getSearchConfig } from "../services/region.service.js";
+
+/**
+ * @description List all service regions
+ * @route GET /api/v2/region
+ * @access Private (Admin)
+ */
+const getAllRegions = asyncHandler(async (req: Request, res: Response) => {
+  const regions = await ServiceRegion.find()
+    .sort({ priority: -1, name: 1 })
+    .lean();
+
+  res
+    .status(200)
+    .json(
+      new ApiResponse(
+        200,
+        { count: regions.length, regions },
+        "Service regions retrieved successfully"
+      )
+    );
+});
+
+/**
+ * @description Create a service region with its search configuration
+ * @route POST /api/v2/region
+ * @access Private (Admin)
+ */
+const createRegion = asyncHandler(async (req: Request, res: Response) => {
+  const validationResult = createRegionSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    throw new ApiError(400, "Validation failed", validationResult.error.issues);
+  }
+
+  const existingRegion = await ServiceRegion.findOne({
+    name: validationResult.data.name,
+  });
+  if (existingRegion) {
+    throw new ApiError(409, "Region with this name already exists");
+  }
+
+  const region = await ServiceRegion.create(validationResult.data);
+
+  res
+    .status(201)
+    .json(new ApiResponse(201, region, "Service region created successfully"));
+});
+
+/**
+ * @description Update a service region (polygon, radii, limits, priority, active flag)
+ * @route PATCH /api/v2/region/:regionId
+ * @access Private (Admin)
+ */
+const updateRegion = asyncHandler(async (req: Request, res: Response) => {
+  const { regionId } = req.params;
+  if (!regionId || !mongoose.Types.ObjectId.isValid(regionId)) {
+    throw new ApiError(400, "Valid region ID is required");
+  }
+
+  const validationResult = updateRegionSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    throw new ApiError(400, "Validation failed", validationResult.error.issues);
+  }
+
+  const region = await ServiceRegion.findByIdAndUpdate(
+    regionId,
+    { $set: validationResult.data },
+    { new: true, runValidators: true }
+  );
+
+  if (!region) {
+    throw new ApiError(404, "Service region not found");
+  }
+
+  res
+    .status(200)
+    .json(new ApiResponse(200, region, "Service region updated successfully"));
+});
+
+/**
+ * @description Delete a service region (points inside fall back to the defaults)
+ * @route DELETE /api/v2/region/:regionId
+ * @access Private (Admin)
+ */
+const deleteRegion = asyncHandler(async (req: Request, res: Response) => {
+  const { regionId } = req.params;
+  if (!regionId || !mongoose.Types.ObjectId.isValid(regionId)) {
+    throw new ApiError(400, "Valid region ID is required");
+  }
+
+  const region = await ServiceRegion.findByIdAndDelete(regionId);
+  if (!region) {
+    throw new ApiError(404, "Service region not found");
+  }
+
+  res
+    .status(200)
+    .json(new ApiResponse(200, {}, "Service region deleted successfully"));
+});
+
+/**
+ * @description Show which search configuration applies at a point
+ * @route GET /api/v2/region/resolve
+ * @access Private (Admin)
+ */
+const resolveRegion = asyncHandler(async (req: Request, res: Response) => {
+  const validationResult = resolveRegionQuerySchema.safeParse(req.query);
+  if (!validationResult.success) {
+    throw new ApiError(400, "Validation failed", validationResult.error.issues);
+  }
+
+  const { longitude, latitude } = validationResult.data;
+
+  const [ambulanceSearch, hospitalSearch] = await Promise.all([
+    getSearchConfig(longitude, latitude, "ambulance"),
+    getSearchConfig(longitude, latitude, "hospital"),
+  ]);
+
+  res
+    .status(200)
+    .json(
+      new ApiResponse(
+        200,
+        { ambulanceSearch, hospitalSearch },
+        "Search configuration resolved successfully"
+      )
+    );
+});
+
+export {
+  getAllRegions,
+  createRegion,
+  updateRegion,
+  deleteRegion,
+  resolveRegion,
+};
@@ -0,0 +1,66 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// Geo search tuning for one kind of resource (ambulances or hospitals)
+export interface ISearchConfig {
+  radiiKm: number[]; // Radius ladder, searched in order (e.g. 5 → 10 → 17 → 30)
+  candidateCount: number; // Max results returned by a search
+  maxRadiusKm: number; // Hard cap, also bounds the re-dispatch sweeper widening
+}
+
+export interface IServiceRegion extends Document {
+  name: string;
+  area: {
+    type: "Polygon";
+    coordinates: number[][][]; // GeoJSON Polygon rings, [lng, lat] pairs
+  };
+  ambulanceSearch: ISearchConfig;
+  hospitalSearch: ISearchConfig;
+  priority: number; // Higher wins when regions overlap (e.g. city core inside a district)
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SearchConfigSchema = new Schema<ISearchConfig>(
+  {
+    radiiKm: { type: [Number], required: true },
+    candidateCount: { type: Number, required: true, min: 1 },
+    maxRadiusKm: { type: Number, required: true, min: 1 },
+  },
+  { _id: false }
+);
+
+const ServiceRegionSchema = new Schema<IServiceRegion>(
+  {
+    name: {
+      type: String,
+      required: true,
+      unique: true,
+      trim: true,
+    },
+    area: {
+      type: {
+        type: String,
+        enum: ["Polygon"],
+        required: true,
+        default: "Polygon",
+      },
+      coordinates: {
+        type: [[[Number]]],
+        required: true,
+      },
+    },
+    ambulanceSearch: { type: SearchConfigSchema, required: true },
+    hospitalSearch: { type: SearchConfigSchema, required: true },
+    priority: { type: Number, default: 0 },
+    isActive: { type: Boolean, default: true },
+  },
+  { timestamps: true }
+);
+
+ServiceRegionSchema.index({ area: "2dsphere" });
+
+export const ServiceRegion = mongoose.model<IServiceRegion>(
+  "ServiceRegion",
+  ServiceRegionSchema
+);
@@ -0,0 +1,66 @@
+import { z } from "zod";
+
+const positionSchema = z.tuple([
+  z.number().min(-180).max(180), // longitude
+  z.number().min(-90).max(90), // latitude
+]);
+
+// A linear ring must have at least 4 positions and be closed (first === last)
+const linearRingSchema = z
+  .array(positionSchema)
+  .min(4, "A polygon ring needs at least 4 positions")
+  .refine(
+    (ring) => {
+      const first = ring[0];
+      const last = ring[ring.length - 1];
+      return first && last && first[0] === last[0] && first[1] === last[1];
+    },
+    { message: "A polygon ring must be closed (first and last positions equal)" }
+  );
+
+const polygonSchema = z.object({
+  type: z.literal("Polygon"),
+  coordinates: z.array(linearRingSchema).min(1),
+});
+
+const searchConfigSchema = z
+  .object({
+    radiiKm: z.array(z.number().positive()).min(1, "At least one radius is required"),
+    candidateCount: z.number().int().min(1).max(50),
+    maxRadiusKm: z.number().positive(),
+  })
+  .refine(
+    (config) => config.radiiKm.every((radius, i, all) => i === 0 || radius > all[i - 1]!),
+    { message: "radiiKm must be strictly increasing", path: ["radiiKm"] }
+  );
+
+// Create service region schema
+export const createRegionSchema = z.object({
+  name: z.string().trim().min(1, "Region name is required"),
+  area: polygonSchema,
+  ambulanceSearch: searchConfigSchema,
+  hospitalSearch: searchConfigSchema,
+  priority: z.number().int().default(0),
+  isActive: z.boolean().default(true),
+});
+
+// Update service region schema (all fields optional)
+export const updateRegionSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  area: polygonSchema.optional(),
+  ambulanceSearch: searchConfigSchema.optional(),
+  hospitalSearch: searchConfigSchema.optional(),
+  priority: z.number().int().optional(),
+  isActive: z.boolean().optional(),
+});
+
+// Resolve config for a point
+export const resolveRegionQuerySchema = z.object({
+  longitude: z.coerce.number().min(-180).max(180),
+  latitude: z.coerce.number().min(-90).max(90),
+});
+
+// Type exports
+export type CreateRegionInput = z.infer<typeof createRegionSchema>;
+export type UpdateRegionInput = z.infer<typeof updateRegionSchema>;
+export type ResolveRegionQuery = z.infer<typeof resolveRegionQuerySchema>;
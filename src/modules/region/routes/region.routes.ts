@@ -0,0 +1,69 @@
+import { Router } from "express";
+import { z } from "zod";
+import { validate } from "../../../shared/middlewares/validate.middleware.js";
+import { verifyAdminJWT } from "../../../shared/middlewares/auth.middleware.js";
+import {
+  createRegionSchema,
+  updateRegionSchema,
+} from "../region.dto/region.dto.js";
+import {
+  getAllRegions,
+  createRegion,
+  updateRegion,
+  deleteRegion,
+  resolveRegion,
+} from "../controllers/region.controller.js";
+
+const router = Router();
+
+// ============================================
+// ADMIN ROUTES
+// ============================================
+
+/**
+ * @route   GET /api/v2/region
+ * @desc    List service regions and their search configuration
+ * @access  Private (Admin)
+ */
+router.get("/", verifyAdminJWT, getAllRegions);
+
+/**
+ * @route   GET /api/v2/region/resolve
+ * @desc    Show the ambulance/hospital search config used at a point
+ * @access  Private (Admin)
+ * @query   longitude, latitude
+ */
+router.get("/resolve", verifyAdminJWT, resolveRegion);
+
+/**
+ * @route   POST /api/v2/region
+ * @desc    Create a service region (polygon + radius ladders + limits)
+ * @access  Private (Admin)
+ */
+router.post(
+  "/",
+  verifyAdminJWT,
+  validate(z.object({ body: createRegionSchema })),
+  createRegion
+);
+
+/**
+ * @route   PATCH /api/v2/region/:regionId
+ * @desc    Update a service region
+ * @access  Private (Admin)
+ */
+router.patch(
+  "/:regionId",
+  verifyAdminJWT,
+  validate(z.object({ body: updateRegionSchema })),
+  updateRegion
+);
+
+/**
+ * @route   DELETE /api/v2/region/:regionId
+ * @desc    Delete a service region
+ * @access  Private (Admin)
+ */
+router.delete("/:regionId", verifyAdminJWT, deleteRegion);
+
+export const regionRoutes: ReturnType<typeof Router> = router;
@@ -0,0 +1,63 @@
+import { ServiceRegion } from "../model/region.model.js";
+import type { ISearchConfig } from "../model/region.model.js";
+
+export type SearchKind = "ambulance" | "hospital";
+
+export interface ResolvedSearchConfig extends ISearchConfig {
+  regionId: string | null; // null when the defaults were used
+  regionName: string | null;
+}
+
+// Used when the point is outside every configured region
+const DEFAULT_SEARCH_CONFIG: Record<SearchKind, ISearchConfig> = {
+  ambulance: { radiiKm: [5, 10, 17, 30], candidateCount: 5, maxRadiusKm: 100 },
+  hospital: { radiiKm: [5, 10, 17, 30], candidateCount: 10, maxRadiusKm: 50 },
+};
+
+/**
+ * Pick the geo search configuration for a point
+ * 1. Find the active regions whose polygon contains the point
+ * 2. Highest priority wins (most specific region)
+ * 3. Radii above maxRadiusKm are dropped
+ * Falls back to the defaults (5 → 10 → 17 → 30km) if no region matches or the lookup fails.
+ */
+const getSearchConfig = async (
+  longitude: number,
+  latitude: number,
+  kind: SearchKind
+): Promise<ResolvedSearchConfig> => {
+  try {
+    const region = await ServiceRegion.findOne({
+      isActive: true,
+      area: {
+        $geoIntersects: {
+          $geometry: { type: "Point", coordinates: [longitude, latitude] },
+        },
+      },
+    })
+      .sort({ priority: -1 })
+      .lean();
+
+    if (region) {
+      const config =
+        kind === "ambulance" ? region.ambulanceSearch : region.hospitalSearch;
+      const radiiKm = config.radiiKm.filter(
+        (radius) => radius <= config.maxRadiusKm
+      );
+
+      return {
+        radiiKm: radiiKm.length > 0 ? radiiKm : [config.maxRadiusKm],
+        candidateCount: config.candidateCount,
+        maxRadiusKm: config.maxRadiusKm,
+        regionId: region._id.toString(),
+        regionName: region.name,
+      };
+    }
+  } catch (error) {
+    console.error("Region lookup error, using default search config:", error);
+  }
+
+  return { ...DEFAULT_SEARCH_CONFIG[kind], regionId: null, regionName: null };
+};
+
+export { DEFAULT_SEARCH_CONFIG, getSearchConfig };
@@ -1,12 +1,19 @@
 // src/modules/trip/controllers/trip.controller.ts
 
 import type { Request, Response } from "express";
+import mongoose from "mongoose";
 import { asyncHandler } from "../../../shared/utils/AsyncHandler.js";
 import { ApiError } from "../../../shared/utils/ApiError.js";
 import { ApiResponse } from "../../../shared/utils/ApiResponce.js";
 import {
   createTripSchema,
   updateTripStatusSchema,
+  scheduleTripSchema,
+  rescheduleTripSchema,
+  reassignTripSchema,
+  recordCareSchema,
+  amendCareRecordSchema,
+  tripGeofenceSchema,
   // assignAmbulanceSchema,
 } from "../trip.dto/trip.dto.js";
 import {
@@ -18,7 +25,25 @@ import {
   getUserTripHistory,
   getActiveTrip,
 } from "../services/trip.service.js";
-import { Trip } from "../model/trip.model.js";
+import { declineTripOffer } from "../services/dispatch.service.js";
+import {
+  scheduleTrip,
+  rescheduleTrip,
+  getUpcomingScheduledTrips,
+} from "../services/scheduled-trip.service.js";
+import { reassignTripAmbulance } from "../services/reassignment.service.js";
+import { setTripGeofence } from "../services/geofence.service.js";
+import {
+  recordCareEntries,
+  amendCareRecord,
+  getCareRecord,
+} from "../services/care-record.service.js";
+import {
+  getTripTrackGeoJson,
+  getTripTrackGpx,
+} from "../services/track.service.js";
+import { Trip, TRIAGE_LEVELS, TRIP_TYPES } from "../model/trip.model.js";
+import type { TriageLevel, TripType } from "../model/trip.model.js";
 
 /**
  * @description Create a new trip request
@@ -47,7 +72,12 @@ const requestAmbulance = asyncHandler(
       pickupCoordinates,
       destinationHospitalId,
       bloodType,
+      bloodUnits,
       requireBeds,
+      requiredCapability,
+      requiredSpecialty,
+      triageLevel,
+      isTrauma,
     } = validationResult.data;
 
     // Create trip
@@ -57,7 +87,12 @@ const requestAmbulance = asyncHandler(
       pickupCoordinates,
       ...(destinationHospitalId && { destinationHospitalId }),
       ...(bloodType && { bloodType }),
+      ...(bloodUnits && { bloodUnits }),
       ...(requireBeds && { requireBeds }),
+      ...(requiredCapability && { requiredCapability }),
+      ...(requiredSpecialty && { requiredSpecialty }),
+      triageLevel,
+      isTrauma,
     });
 
     res
@@ -72,6 +107,126 @@ const requestAmbulance = asyncHandler(
   }
 );
 
+/**
+ * @description Schedule a non-emergency transport with a pickup window
+ * @route POST /api/v2/trip/schedule
+ * @access Private (User)
+ */
+const scheduleTransport = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+    if (!userId) {
+      throw new ApiError(401, "Unauthorized");
+    }
+
+    const validationResult = scheduleTripSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      throw new ApiError(
+        400,
+        "Validation failed",
+        validationResult.error.issues
+      );
+    }
+
+    const {
+      pickupAddress,
+      pickupCoordinates,
+      dropoffAddress,
+      dropoffCoordinates,
+      destinationHospitalId,
+      requiredCapability,
+      triageLevel,
+      pickupWindowStart,
+      pickupWindowEnd,
+    } = validationResult.data;
+
+    const trip = await scheduleTrip({
+      userId: userId.toString(),
+      ...(pickupAddress && { pickupAddress }),
+      pickupCoordinates,
+      ...(dropoffAddress && { dropoffAddress }),
+      ...(dropoffCoordinates && { dropoffCoordinates }),
+      ...(destinationHospitalId && { destinationHospitalId }),
+      ...(requiredCapability && { requiredCapability }),
+      triageLevel,
+      pickupWindowStart,
+      pickupWindowEnd,
+    });
+
+    res
+      .status(201)
+      .json(new ApiResponse(201, trip, "Trip scheduled successfully"));
+  }
+);
+
+/**
+ * @description Move the pickup window of a scheduled trip
+ * @route PATCH /api/v2/trip/:tripId/reschedule
+ * @access Private (User/Admin)
+ */
+const rescheduleTransport = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { tripId } = req.params;
+    if (!tripId) {
+      throw new ApiError(400, "Trip ID is required");
+    }
+
+    const userId = req.user?._id;
+    const adminId = req.admin?._id;
+    if (!userId && !adminId) {
+      throw new ApiError(403, "Forbidden - Access denied");
+    }
+
+    const validationResult = rescheduleTripSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      throw new ApiError(
+        400,
+        "Validation failed",
+        validationResult.error.issues
+      );
+    }
+
+    const trip = await rescheduleTrip({
+      tripId,
+      ...validationResult.data,
+      requestedBy: userId
+        ? `user:${userId.toString()}`
+        : `admin:${adminId!.toString()}`,
+      ...(userId && { userId: userId.toString() }),
+    });
+
+    res
+      .status(200)
+      .json(new ApiResponse(200, trip, "Trip rescheduled successfully"));
+  }
+);
+
+/**
+ * @description Get user's upcoming scheduled trips
+ * @route GET /api/v2/trip/scheduled
+ * @access Private (User)
+ */
+const getMyScheduledTrips = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+    if (!userId) {
+      throw new ApiError(401, "Unauthorized");
+    }
+
+    const trips = await getUpcomingScheduledTrips(userId.toString());
+
+    res
+      .status(200)
+      .json(
+        new ApiResponse(
+          200,
+          { count: trips.length, trips },
+          "Scheduled trips retrieved successfully"
+        )
+      );
+  }
+);
+
 /**
  * @description Get current active trip for logged-in user
  * @route GET /api/v2/trip/active
@@ -101,7 +256,7 @@ const getMyActiveTrip = asyncHandler(
 /**
  * @description Get trip details by ID
  * @route GET /api/v2/trip/:tripId
- * @access Private (User/Ambulance/Admin)
+ * @access Private (User/Ambulance/Hospital/Admin)
  */
 const getTripById = asyncHandler(
   async (req: Request, res: Response) => {
@@ -113,12 +268,15 @@ const getTripById = asyncHandler(
 
     const trip = await getTripDetails(tripId);
 
-    // Authorization check
-    const userId = req.user?._id || req.ambulance?._id || req.admin?._id;
+    // Authorization check (hospitals can view trips routed to them)
+    const userId =
+      req.user?._id || req.ambulance?._id || req.hospital?._id || req.admin?._id;
     if (
       !req.admin &&
-      trip.userId._id.toString() !== userId?.toString() &&
-      trip.ambulanceId?._id?.toString() !== userId?.toString()
+      trip.userId?._id?.toString() !== userId?.toString() &&
+      trip.ambulanceId?._id?.toString() !== userId?.toString() &&
+      (!req.hospital ||
+        trip.destinationHospitalId?._id?.toString() !== userId?.toString())
     ) {
       throw new ApiError(403, "Forbidden - Access denied");
     }
@@ -188,6 +346,31 @@ const acceptTrip = asyncHandler(
   }
 );
 
+/**
+ * @description Ambulance declines a trip offer (offer moves to the next ambulance)
+ * @route POST /api/v2/trip/:tripId/decline
+ * @access Private (Ambulance)
+ */
+const declineTrip = asyncHandler(
+  async (req: Request, res: Response) => {
+    const ambulanceId = req.ambulance?._id;
+    if (!ambulanceId) {
+      throw new ApiError(401, "Unauthorized - Ambulance not logged in");
+    }
+
+    const { tripId } = req.params;
+    if (!tripId) {
+      throw new ApiError(400, "Trip ID is required");
+    }
+
+    await declineTripOffer(tripId, ambulanceId.toString());
+
+    res
+      .status(200)
+      .json(new ApiResponse(200, { tripId }, "Trip offer declined"));
+  }
+);
+
 /**
  * @description Update trip status (Ambulance only)
  * @route PATCH /api/v2/trip/:tripId/status
@@ -220,6 +403,7 @@ const updateTripStatusByAmbulance = asyncHandler(
     const trip = await updateTripStatus({
       tripId,
       status,
+      crewAmbulanceId: ambulanceId.toString(),
       ...(location && { location }),
       updatedBy: `ambulance:${ambulanceId.toString()}`,
     });
@@ -232,6 +416,52 @@ const updateTripStatusByAmbulance = asyncHandler(
   }
 );
 
+/**
+ * @description Turn automatic arrival detection (geofence) on or off for a trip
+ * @route PATCH /api/v2/trip/:tripId/geofence
+ * @access Private (Ambulance)
+ */
+const updateTripGeofence = asyncHandler(
+  async (req: Request, res: Response) => {
+    const ambulanceId = req.ambulance?._id;
+    if (!ambulanceId) {
+      throw new ApiError(401, "Unauthorized - Ambulance not logged in");
+    }
+
+    const { tripId } = req.params;
+    if (!tripId || !mongoose.Types.ObjectId.isValid(tripId as string)) {
+      throw new ApiError(400, "Invalid trip ID");
+    }
+
+    const validationResult = tripGeofenceSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      throw new ApiError(
+        400,
+        "Validation failed",
+        validationResult.error.issues
+      );
+    }
+
+    const trip = await setTripGeofence(
+      tripId as string,
+      ambulanceId.toString(),
+      validationResult.data.enabled
+    );
+
+    res
+      .status(200)
+      .json(
+        new ApiResponse(
+          200,
+          trip,
+          validationResult.data.enabled
+            ? "Automatic arrival detection enabled"
+            : "Automatic arrival detection disabled"
+        )
+      );
+  }
+);
+
 /**
  * @description Cancel trip (User or Ambulance)
  * @route POST /api/v2/trip/:tripId/cancel
@@ -246,16 +476,23 @@ const cancelTripRequest = asyncHandler(
 
     const userId = req.user?._id;
     const ambulanceId = req.ambulance?._id;
+    const adminId = req.admin?._id;
 
-    if (!userId && !ambulanceId) {
+    if (!userId && !ambulanceId && !adminId) {
       throw new ApiError(401, "Unauthorized");
     }
 
     const cancelledBy = userId
       ? `user:${userId.toString()}`
-      : `ambulance:${ambulanceId!.toString()}`;
-
-    const trip = await cancelTrip(tripId, cancelledBy);
+      : ambulanceId
+        ? `ambulance:${ambulanceId.toString()}`
+        : `admin:${adminId!.toString()}`;
+
+    // Patients and crews can only cancel their own trips, admins any trip
+    const trip = await cancelTrip(tripId, cancelledBy, {
+      ...(userId && { userId: userId.toString() }),
+      ...(ambulanceId && { ambulanceId: ambulanceId.toString() }),
+    });
 
     res
       .status(200)
@@ -264,7 +501,234 @@ const cancelTripRequest = asyncHandler(
 );
 
 /**
- * @description Get all trips (Admin only)
+ * @description Replace the assigned ambulance mid-trip (breakdown etc.)
+ * @route POST /api/v2/trip/:tripId/reassign
+ * @access Private (Ambulance/Admin)
+ */
+const reassignAmbulance = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { tripId } = req.params;
+    if (!tripId || !mongoose.Types.ObjectId.isValid(tripId)) {
+      throw new ApiError(400, "Invalid trip ID");
+    }
+
+    const ambulanceId = req.ambulance?._id;
+    const adminId = req.admin?._id;
+    if (!ambulanceId && !adminId) {
+      throw new ApiError(403, "Forbidden - Access denied");
+    }
+
+    const validationResult = reassignTripSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      throw new ApiError(
+        400,
+        "Validation failed",
+        validationResult.error.issues
+      );
+    }
+
+    const trip = await reassignTripAmbulance({
+      tripId,
+      reason: validationResult.data.reason,
+      requestedBy: ambulanceId
+        ? `ambulance:${ambulanceId.toString()}`
+        : `admin:${adminId!.toString()}`,
+      ...(ambulanceId && { ambulanceId: ambulanceId.toString() }),
+    });
+
+    res
+      .status(200)
+      .json(
+        new ApiResponse(
+          200,
+          trip,
+          "Ambulance released. Searching for a replacement..."
+        )
+      );
+  }
+);
+
+/**
+ * @description Record patient care (chief complaint, vitals, GCS, interventions, medications)
+ * @route PATCH /api/v2/trip/:tripId/care-record
+ * @access Private (Ambulance)
+ */
+const recordPatientCare = asyncHandler(
+  async (req: Request, res: Response) => {
+    const ambulanceId = req.ambulance?._id;
+    if (!ambulanceId) {
+      throw new ApiError(401, "Unauthorized - Ambulance not logged in");
+    }
+
+    const { tripId } = req.params;
+    if (!tripId || !mongoose.Types.ObjectId.isValid(tripId as string)) {
+      throw new ApiError(400, "Invalid trip ID");
+    }
+
+    const validationResult = recordCareSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      throw new ApiError(
+        400,
+        "Validation failed",
+        validationResult.error.issues
+      );
+    }
+
+    const record = await recordCareEntries(
+      tripId as string,
+      ambulanceId.toString(),
+      validationResult.data
+    );
+
+    res
+      .status(200)
+      .json(new ApiResponse(200, record, "Care record updated successfully"));
+  }
+);
+
+/**
+ * @description Amend a care record locked at trip completion
+ * @route POST /api/v2/trip/:tripId/care-record/amendments
+ * @access Private (Ambulance/Admin)
+ */
+const amendPatientCareRecord = asyncHandler(
+  async (req: Request, res: Response) => {
+    const ambulanceId = req.ambulance?._id;
+    const adminId = req.admin?._id;
+    if (!ambulanceId && !adminId) {
+      throw new ApiError(403, "Forbidden - Access denied");
+    }
+
+    const { tripId } = req.params;
+    if (!tripId || !mongoose.Types.ObjectId.isValid(tripId as string)) {
+      throw new ApiError(400, "Invalid trip ID");
+    }
+
+    const validationResult = amendCareRecordSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      throw new ApiError(
+        400,
+        "Validation failed",
+        validationResult.error.issues
+      );
+    }
+
+    const record = await amendCareRecord(
+      tripId as string,
+      validationResult.data,
+      {
+        amendedBy: ambulanceId
+          ? `ambulance:${ambulanceId.toString()}`
+          : `admin:${adminId!.toString()}`,
+        ...(ambulanceId && { ambulanceId: ambulanceId.toString() }),
+      }
+    );
+
+    res
+      .status(200)
+      .json(new ApiResponse(200, record, "Care record amended successfully"));
+  }
+);
+
+/**
+ * @description Get the care record of a trip
+ * @route GET /api/v2/trip/:tripId/care-record
+ * @access Private (Ambulance/Hospital/Admin)
+ */
+const getTripCareRecord = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { tripId } = req.params;
+    if (!tripId || !mongoose.Types.ObjectId.isValid(tripId as string)) {
+      throw new ApiError(400, "Invalid trip ID");
+    }
+
+    const trip = await Trip.findById(tripId).select(
+      "ambulanceId destinationHospitalId"
+    );
+    if (!trip) {
+      throw new ApiError(404, "Trip not found");
+    }
+
+    // Authorization check: the trip's crew and destination hospital
+    const isCrew =
+      !!req.ambulance &&
+      trip.ambulanceId?.toString() === req.ambulance._id.toString();
+    const isHospital =
+      !!req.hospital &&
+      trip.destinationHospitalId?.toString() === req.hospital._id.toString();
+    if (!req.admin && !isCrew && !isHospital) {
+      throw new ApiError(403, "Forbidden - Access denied");
+    }
+
+    const record = await getCareRecord(tripId as string);
+
+    res
+      .status(200)
+      .json(new ApiResponse(200, record, "Care record retrieved successfully"));
+  }
+);
+
+/**
+ * Only admins and the trip's destination hospital can look at a recorded track
+ */
+const assertCanViewTrack = async (req: Request, tripId: string) => {
+  if (!tripId || !mongoose.Types.ObjectId.isValid(tripId)) {
+    throw new ApiError(400, "Invalid trip ID");
+  }
+
+  const trip = await Trip.findById(tripId).select("destinationHospitalId");
+  if (!trip) {
+    throw new ApiError(404, "Trip not found");
+  }
+
+  const isHospital =
+    !!req.hospital &&
+    trip.destinationHospitalId?.toString() === req.hospital._id.toString();
+  if (!req.admin && !isHospital) {
+    throw new ApiError(403, "Forbidden - Access denied");
+  }
+};
+
+/**
+ * @description Get the recorded path of a trip as GeoJSON with timeline status markers
+ * @route GET /api/v2/trip/:tripId/track
+ * @access Private (Hospital/Admin)
+ */
+const getTripTrack = asyncHandler(
+  async (req: Request, res: Response) => {
+    const tripId = req.params.tripId as string;
+    await assertCanViewTrack(req, tripId);
+
+    const track = await getTripTrackGeoJson(tripId);
+
+    res
+      .status(200)
+      .json(new ApiResponse(200, track, "Trip track retrieved successfully"));
+  }
+);
+
+/**
+ * @description Download the recorded path of a trip as a GPX file
+ * @route GET /api/v2/trip/:tripId/track/gpx
+ * @access Private (Hospital/Admin)
+ */
+const exportTripTrackGpx = asyncHandler(
+  async (req: Request, res: Response) => {
+    const tripId = req.params.tripId as string;
+    await assertCanViewTrack(req, tripId);
+
+    const gpx = await getTripTrackGpx(tripId);
+
+    res
+      .status(200)
+      .setHeader("Content-Type", "application/gpx+xml")
+      .setHeader("Content-Disposition", `attachment; filename="trip-${tripId}.gpx"`)
+      .send(gpx);
+  }
+);
+
+/**
+ * @description Get all trips (Admin only), filterable by status, triageLevel and type
  * @route GET /api/v2/trip/all
  * @access Private (Admin)
  */
@@ -275,12 +739,30 @@ const getAllTrips = asyncHandler(
       throw new ApiError(403, "Forbidden - Admin access required");
     }
 
-    const { status, limit = 50, page = 1 } = req.query;
+    const { status, triageLevel, type, limit = 50, page = 1 } = req.query;
 
     const query: any = {};
     if (status) {
       query.status = status;
     }
+    if (triageLevel) {
+      if (!TRIAGE_LEVELS.includes(triageLevel as TriageLevel)) {
+        throw new ApiError(
+          400,
+          `Invalid triage level. Must be one of: ${TRIAGE_LEVELS.join(", ")}`
+        );
+      }
+      query.triageLevel = triageLevel;
+    }
+    if (type) {
+      if (!TRIP_TYPES.includes(type as TripType)) {
+        throw new ApiError(
+          400,
+          `Invalid trip type. Must be one of: ${TRIP_TYPES.join(", ")}`
+        );
+      }
+      query.type = type;
+    }
 
     const skip = (Number(page) - 1) * Number(limit);
 
@@ -320,9 +802,20 @@ export {
     getActiveTrip,
     cancelTripRequest,
     acceptTrip,
+    declineTrip,
     getMyTripHistory,
     updateTripStatusByAmbulance,
     getTripById,
     getMyActiveTrip,
-    requestAmbulance
+    requestAmbulance,
+    scheduleTransport,
+    rescheduleTransport,
+    getMyScheduledTrips,
+    reassignAmbulance,
+    recordPatientCare,
+    amendPatientCareRecord,
+    getTripCareRecord,
+    getTripTrack,
+    exportTripTrackGpx,
+    updateTripGeofence
 }
\ No newline at end of file
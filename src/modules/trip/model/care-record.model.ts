@@ -0,0 +1,182 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// OPEN while the crew is treating the patient, LOCKED once the trip is COMPLETED
+export const CARE_RECORD_STATUSES = ["OPEN", "LOCKED"] as const;
+export type CareRecordStatus = (typeof CARE_RECORD_STATUSES)[number];
+
+export const MEDICATION_ROUTES = [
+  "IV",
+  "IM",
+  "IO",
+  "SC",
+  "ORAL",
+  "SUBLINGUAL",
+  "INHALED",
+  "INTRANASAL",
+  "TOPICAL",
+  "RECTAL",
+] as const;
+export type MedicationRoute = (typeof MEDICATION_ROUTES)[number];
+
+// One set of vital signs taken at a point in time
+export interface IVitalSigns {
+  recordedAt: Date;
+  heartRate?: number; // bpm
+  systolicBP?: number; // mmHg
+  diastolicBP?: number; // mmHg
+  respiratoryRate?: number; // breaths/min
+  spo2?: number; // %
+  temperature?: number; // °C
+  bloodGlucose?: number; // mg/dL
+  painScore?: number; // 0-10
+}
+
+// Glasgow Coma Scale: eye 1-4, verbal 1-5, motor 1-6, total 3-15
+export interface IGcsScore {
+  recordedAt: Date;
+  eye: number;
+  verbal: number;
+  motor: number;
+  total: number;
+}
+
+export interface IIntervention {
+  name: string; // e.g. "Cervical collar", "Defibrillation"
+  performedAt: Date;
+  notes?: string;
+}
+
+export interface IMedication {
+  name: string;
+  dose: string; // e.g. "300 mg"
+  route: MedicationRoute;
+  administeredAt: Date;
+}
+
+// Change made after the record was locked
+export interface ICareRecordAmendment {
+  amendedBy: string; // "ambulance:ID" or "admin:ID"
+  amendedAt: Date;
+  reason: string;
+  changes: Record<string, unknown>; // Amended fields (new values)
+  previous: Record<string, unknown>; // Same fields before the amendment
+}
+
+export interface ICareRecord extends Document {
+  tripId: mongoose.Types.ObjectId;
+  ambulanceId?: mongoose.Types.ObjectId | null; // Crew that opened the record
+  hospitalId?: mongoose.Types.ObjectId | null; // Destination hospital when last updated
+
+  chiefComplaint?: string;
+  vitals: IVitalSigns[];
+  gcs: IGcsScore[];
+  interventions: IIntervention[];
+  medications: IMedication[];
+  notes?: string;
+
+  status: CareRecordStatus;
+  lockedAt?: Date;
+  amendments: ICareRecordAmendment[];
+  lastUpdatedBy?: string;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const VitalSignsSchema = new Schema<IVitalSigns>(
+  {
+    recordedAt: { type: Date, required: true },
+    heartRate: { type: Number, min: 0, max: 300 },
+    systolicBP: { type: Number, min: 0, max: 300 },
+    diastolicBP: { type: Number, min: 0, max: 200 },
+    respiratoryRate: { type: Number, min: 0, max: 80 },
+    spo2: { type: Number, min: 0, max: 100 },
+    temperature: { type: Number, min: 20, max: 45 },
+    bloodGlucose: { type: Number, min: 0, max: 1000 },
+    painScore: { type: Number, min: 0, max: 10 },
+  },
+  { _id: false }
+);
+
+const GcsScoreSchema = new Schema<IGcsScore>(
+  {
+    recordedAt: { type: Date, required: true },
+    eye: { type: Number, min: 1, max: 4, required: true },
+    verbal: { type: Number, min: 1, max: 5, required: true },
+    motor: { type: Number, min: 1, max: 6, required: true },
+    total: { type: Number, min: 3, max: 15, required: true },
+  },
+  { _id: false }
+);
+
+const CareRecordSchema = new Schema<ICareRecord>(
+  {
+    tripId: {
+      type: Schema.Types.ObjectId,
+      ref: "Trip",
+      required: true,
+      unique: true,
+    },
+    ambulanceId: {
+      type: Schema.Types.ObjectId,
+      ref: "Ambulance",
+      default: null,
+    },
+    hospitalId: {
+      type: Schema.Types.ObjectId,
+      ref: "Hospital",
+      default: null,
+    },
+
+    chiefComplaint: { type: String, trim: true },
+    vitals: { type: [VitalSignsSchema], default: [] },
+    gcs: { type: [GcsScoreSchema], default: [] },
+    interventions: [
+      {
+        name: { type: String, required: true, trim: true },
+        performedAt: { type: Date, required: true },
+        notes: { type: String, trim: true },
+        _id: false,
+      },
+    ],
+    medications: [
+      {
+        name: { type: String, required: true, trim: true },
+        dose: { type: String, required: true, trim: true },
+        route: { type: String, enum: MEDICATION_ROUTES, required: true },
+        administeredAt: { type: Date, required: true },
+        _id: false,
+      },
+    ],
+    notes: { type: String, trim: true },
+
+    status: {
+      type: String,
+      enum: CARE_RECORD_STATUSES,
+      default: "OPEN",
+    },
+    lockedAt: { type: Date },
+    amendments: [
+      {
+        amendedBy: { type: String, required: true },
+        amendedAt: { type: Date, required: true },
+        reason: { type: String, required: true },
+        changes: { type: Schema.Types.Mixed, required: true },
+        previous: { type: Schema.Types.Mixed, required: true },
+        _id: false,
+      },
+    ],
+    lastUpdatedBy: { type: String },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Care records handed to a hospital
+CareRecordSchema.index({ hospitalId: 1, createdAt: -1 });
+
+export const CareRecord = mongoose.model<ICareRecord>(
+  "CareRecord",
+  CareRecordSchema
+);
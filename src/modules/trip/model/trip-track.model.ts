@@ -0,0 +1,56 @@
+import mongoose, { Document, Schema } from "mongoose";
+import type { TripStatus } from "./trip.model.js";
+
+export const TRACK_SOURCES = ["ambulance", "user"] as const;
+export type TrackSource = (typeof TRACK_SOURCES)[number];
+
+// Series a point belongs to (time-series metaField)
+export interface ITripTrackMeta {
+  tripId: mongoose.Types.ObjectId;
+  role: TrackSource;
+  sourceId: mongoose.Types.ObjectId; // Ambulance or user that sent the position
+}
+
+// One breadcrumb of a trip's path, as sent by location_update
+export interface ITripTrackPoint extends Document {
+  recordedAt: Date;
+  meta: ITripTrackMeta;
+  location: [number, number]; // [lng, lat]
+  accuracy?: number; // meters
+  heading?: number; // degrees
+  speed?: number; // m/s
+  status: TripStatus; // Trip status when the position was sent
+}
+
+const TripTrackPointSchema = new Schema<ITripTrackPoint>(
+  {
+    recordedAt: { type: Date, required: true },
+    meta: {
+      tripId: { type: Schema.Types.ObjectId, ref: "Trip", required: true },
+      role: { type: String, enum: TRACK_SOURCES, required: true },
+      sourceId: { type: Schema.Types.ObjectId, required: true },
+    },
+    location: { type: [Number], required: true },
+    accuracy: { type: Number },
+    heading: { type: Number },
+    speed: { type: Number },
+    status: { type: String, required: true },
+  },
+  {
+    // Kept permanently (no expireAfterSeconds) for disputes, audits and analytics
+    timeseries: {
+      timeField: "recordedAt",
+      metaField: "meta",
+      granularity: "seconds",
+    },
+    versionKey: false,
+  }
+);
+
+// Path of one trip in time order
+TripTrackPointSchema.index({ "meta.tripId": 1, recordedAt: 1 });
+
+export const TripTrackPoint = mongoose.model<ITripTrackPoint>(
+  "TripTrackPoint",
+  TripTrackPointSchema
+);
@@ -1,7 +1,12 @@
 import mongoose, { Document, Schema } from "mongoose";
 import { string } from "zod";
+import { AMBULANCE_CAPABILITIES } from "../../ambulance/model/ambulance.model.js";
+import type { AmbulanceCapability } from "../../ambulance/model/ambulance.model.js";
+import { HOSPITAL_SPECIALTIES } from "../../hospital/model/hospital.model.js";
+import type { HospitalSpecialty } from "../../hospital/model/hospital.model.js";
 
 export type TripStatus =
+  | "SCHEDULED" // Booked ahead, dispatch starts at the lead time before pickup
   | "SEARCHING" // Looking for driver
   | "ACCEPTED" // Driver accepted (was 'ASSIGNED')
   | "ARRIVED_PICKUP" // Driver reached patient
@@ -10,6 +15,14 @@ export type TripStatus =
   | "COMPLETED" // Handover done
   | "CANCELLED";
 
+// EMERGENCY = immediate request, SCHEDULED = non-emergency transport booked ahead
+export const TRIP_TYPES = ["EMERGENCY", "SCHEDULED"] as const;
+export type TripType = (typeof TRIP_TYPES)[number];
+
+// Emergency triage level: P1 (immediate, life-threatening) → P4 (non-urgent)
+export const TRIAGE_LEVELS = ["P1", "P2", "P3", "P4"] as const;
+export type TriageLevel = (typeof TRIAGE_LEVELS)[number];
+
 export interface ITripTimeline {
   status: TripStatus;
   timestamp: Date;
@@ -17,8 +30,49 @@ export interface ITripTimeline {
   updatedBy?: string; // "system", "driver:ID", "user:ID"
 }
 
+// Destination hospital's answer to the pre-arrival notification
+export const HOSPITAL_HANDSHAKE_STATUSES = ["PENDING", "ACCEPTED", "DECLINED"] as const;
+export type HospitalHandshakeStatus = (typeof HOSPITAL_HANDSHAKE_STATUSES)[number];
+
+export interface IHospitalHandshake {
+  hospitalId: mongoose.Types.ObjectId;
+  status: HospitalHandshakeStatus;
+  notifiedAt: Date;
+  respondedAt?: Date;
+  reason?: string;
+}
+
+// A unit taken off a trip mid-way (breakdown etc.) and replaced by another one
+export interface ITripReassignment {
+  fromAmbulanceId: mongoose.Types.ObjectId;
+  previousStatus: TripStatus;
+  reason: string;
+  location: [number, number]; // Patient location the replacement was dispatched to
+  requestedBy: string; // "ambulance:ID" or "admin:ID"
+  timestamp: Date;
+}
+
+// How the fare of a completed trip was computed
+export interface IFareBreakdown {
+  currency: string;
+  legs: {
+    toPickupMeters: number;
+    toHospitalMeters: number;
+  };
+  // "gps": legs summed from recorded ambulance positions,
+  // "estimated": at least one leg had no positions and uses the straight line instead
+  distanceSource: "gps" | "estimated";
+  baseFare: number;
+  distanceCharge: number;
+  waitingMinutes: number; // At the pickup, after the free waiting time
+  waitingCharge: number;
+  capabilityClass?: AmbulanceCapability;
+  capabilitySurcharge: number;
+  total: number;
+}
+
 export interface IPatientSnapshot {
-  userId: string;
+  userId: string; // "incident:ID" for incident casualties
   name: string;
   phone: string;
   medicalHistory?: string;
@@ -26,12 +80,41 @@ export interface IPatientSnapshot {
 }
 
 export interface ITrip extends Document {
-  userId: mongoose.Types.ObjectId;
+  // null for casualties of a mass-casualty incident (no registered patient)
+  userId?: mongoose.Types.ObjectId | null;
+  incidentId?: mongoose.Types.ObjectId | null;
 
   ambulanceId?: mongoose.Types.ObjectId | null | string;
   destinationHospitalId?: mongoose.Types.ObjectId | null | string;
+  // Handshake with the current destination hospital, hospitals that declined are skipped on re-route
+  hospitalHandshake?: IHospitalHandshake | null;
+  declinedHospitalIds: mongoose.Types.ObjectId[];
 
+  type: TripType;
   status: TripStatus;
+  triageLevel: TriageLevel;
+  // Trauma patients skip hospitals diverting trauma cases
+  isTrauma: boolean;
+  // Arrival at pickup / hospital is set automatically from the ambulance position (driver can turn it off)
+  geofenceEnabled: boolean;
+  // Department the destination hospital must have (e.g. STROKE_UNIT)
+  requiredSpecialty?: HospitalSpecialty | null;
+  // Blood units to hold at the destination hospital
+  bloodRequirement?: {
+    bloodType: string; // "A+", "O-", ...
+    units: number;
+  } | null;
+
+  // Pickup window of a scheduled trip
+  scheduledPickup?: {
+    windowStart: Date;
+    windowEnd: Date;
+  };
+
+  // Minimum ambulance class the patient needs (BLS/ALS/ICU/NEONATAL)
+  requiredCapability?: AmbulanceCapability;
+  // true when the assigned unit does not meet requiredCapability (none was available)
+  capabilityDowngraded?: boolean;
 
   pickup: {
     address?: string;
@@ -49,11 +132,18 @@ export interface ITrip extends Document {
   arrivedAtHospital?: Date;
   completedAt?: Date;
 
-  distance?: number;
-  cost?: number;
+  // When the ambulance search started (differs from createdAt for scheduled trips)
+  searchStartedAt?: Date;
+  // Set when admins were alerted that no ambulance could be found in time
+  unassignedAlertAt?: Date;
+
+  distance?: number; // km travelled (to pickup + to hospital), set on completion
+  cost?: number; // Total fare, see fareBreakdown
+  fareBreakdown?: IFareBreakdown | null;
 
   patientSnapshot: IPatientSnapshot;
   timeline: ITripTimeline[];
+  reassignments: ITripReassignment[];
 
   createdAt: Date;
   updatedAt: Date;
@@ -64,7 +154,13 @@ const TripSchema = new Schema<ITrip>(
     userId: {
       type: Schema.Types.ObjectId,
       ref: "User",
-      required: true,
+      default: null,
+    },
+    incidentId: {
+      type: Schema.Types.ObjectId,
+      ref: "Incident",
+      default: null,
+      index: true,
     },
     ambulanceId: {
       type: Schema.Types.ObjectId,
@@ -76,10 +172,40 @@ const TripSchema = new Schema<ITrip>(
       ref: "Hospital",
       default: null,
     },
+    hospitalHandshake: {
+      type: new Schema<IHospitalHandshake>(
+        {
+          hospitalId: {
+            type: Schema.Types.ObjectId,
+            ref: "Hospital",
+            required: true,
+          },
+          status: {
+            type: String,
+            enum: HOSPITAL_HANDSHAKE_STATUSES,
+            default: "PENDING",
+          },
+          notifiedAt: { type: Date, default: Date.now },
+          respondedAt: { type: Date },
+          reason: { type: String },
+        },
+        { _id: false }
+      ),
+      default: null,
+    },
+    declinedHospitalIds: [{ type: Schema.Types.ObjectId, ref: "Hospital" }],
+
+    type: {
+      type: String,
+      enum: TRIP_TYPES,
+      default: "EMERGENCY",
+      index: true,
+    },
 
     status: {
       type: String,
       enum: [
+        "SCHEDULED",
         "SEARCHING",
         "ACCEPTED",
         "ARRIVED_PICKUP",
@@ -92,11 +218,52 @@ const TripSchema = new Schema<ITrip>(
       index: true,
     },
 
+    triageLevel: {
+      type: String,
+      enum: TRIAGE_LEVELS,
+      default: "P2",
+      index: true,
+    },
+    isTrauma: { type: Boolean, default: false },
+    geofenceEnabled: { type: Boolean, default: true },
+    requiredSpecialty: {
+      type: String,
+      enum: HOSPITAL_SPECIALTIES,
+      default: null,
+    },
+    bloodRequirement: {
+      type: new Schema(
+        {
+          bloodType: {
+            type: String,
+            enum: ["A+", "A-", "B+", "B-", "O+", "O-", "AB+", "AB-"],
+            required: true,
+          },
+          units: { type: Number, min: 1, default: 1 },
+        },
+        { _id: false }
+      ),
+      default: null,
+    },
+
+    requiredCapability: {
+      type: String,
+      enum: AMBULANCE_CAPABILITIES,
+    },
+    capabilityDowngraded: { type: Boolean, default: false },
+
+    scheduledPickup: {
+      windowStart: { type: Date },
+      windowEnd: { type: Date },
+    },
+
     // Specific Timestamp Fields (Optimized for Reports/Analytics)
     acceptedAt: { type: Date },
     arrivedAtPickup: { type: Date },
     arrivedAtHospital: { type: Date },
     completedAt: { type: Date },
+    searchStartedAt: { type: Date },
+    unassignedAlertAt: { type: Date },
 
     pickup: {
       address: { type: String },
@@ -112,6 +279,11 @@ const TripSchema = new Schema<ITrip>(
       coordinates: { type: [Number] },
     },
 
+    // Fare (set on completion)
+    distance: { type: Number, min: 0 },
+    cost: { type: Number, min: 0 },
+    fareBreakdown: { type: Schema.Types.Mixed, default: null },
+
     patientSnapshot: {
       userId: { type: String, required: true },
       name: { type: String, required: true },
@@ -129,6 +301,23 @@ const TripSchema = new Schema<ITrip>(
         updatedBy: { type: String },
       },
     ],
+
+    // Ambulances replaced mid-trip
+    reassignments: [
+      {
+        fromAmbulanceId: {
+          type: Schema.Types.ObjectId,
+          ref: "Ambulance",
+          required: true,
+        },
+        previousStatus: { type: String, required: true },
+        reason: { type: String, required: true },
+        location: { type: [Number] },
+        requestedBy: { type: String, required: true },
+        timestamp: { type: Date, default: Date.now },
+        _id: false,
+      },
+    ],
   },
   {
     timestamps: true,
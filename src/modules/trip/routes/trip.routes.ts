@@ -12,6 +12,12 @@ import {
 import {
   createTripSchema,
   updateTripStatusSchema,
+  scheduleTripSchema,
+  rescheduleTripSchema,
+  reassignTripSchema,
+  recordCareSchema,
+  amendCareRecordSchema,
+  tripGeofenceSchema,
 } from "../trip.dto/trip.dto.js";
 import {
   requestAmbulance,
@@ -19,9 +25,20 @@ import {
   getTripById,
   getMyTripHistory,
   acceptTrip,
+  declineTrip,
   updateTripStatusByAmbulance,
   cancelTripRequest,
   getAllTrips,
+  scheduleTransport,
+  rescheduleTransport,
+  getMyScheduledTrips,
+  reassignAmbulance,
+  recordPatientCare,
+  amendPatientCareRecord,
+  getTripCareRecord,
+  getTripTrack,
+  exportTripTrackGpx,
+  updateTripGeofence,
 } from "../controllers/trip.controller.js";
 
 const router = Router();
@@ -42,6 +59,37 @@ router.post(
   requestAmbulance
 );
 
+/**
+ * @route   POST /api/v2/trip/schedule
+ * @desc    Book a non-emergency transport with a pickup window
+ * @access  Private (User)
+ */
+router.post(
+  "/schedule",
+  verifyUserJWT,
+  validate(z.object({ body: scheduleTripSchema })),
+  scheduleTransport
+);
+
+/**
+ * @route   GET /api/v2/trip/scheduled
+ * @desc    Get upcoming scheduled trips
+ * @access  Private (User)
+ */
+router.get("/scheduled", verifyUserJWT, getMyScheduledTrips);
+
+/**
+ * @route   PATCH /api/v2/trip/:tripId/reschedule
+ * @desc    Move the pickup window of a scheduled trip (cancel with /cancel/:tripId)
+ * @access  Private (User/Admin)
+ */
+router.patch(
+  "/:tripId/reschedule",
+  verifyJWT,
+  validate(z.object({ body: rescheduleTripSchema })),
+  rescheduleTransport
+);
+
 /**
  * @route   GET /api/v2/trip/active
  * @desc    Get current active trip
@@ -58,8 +106,8 @@ router.get("/history", verifyUserJWT, getMyTripHistory);
 
 /**
  * @route   POST /api/v2/trip/:tripId/cancel
- * @desc    Cancel a trip
- * @access  Private (User/Ambulance)
+ * @desc    Cancel a trip (patients and crews their own trips only)
+ * @access  Private (User/Ambulance/Admin)
  */
 router.post("/cancel/:tripId", verifyJWT, cancelTripRequest);
 
@@ -69,11 +117,18 @@ router.post("/cancel/:tripId", verifyJWT, cancelTripRequest);
 
 /**
  * @route   POST /api/v2/trip/:tripId/accept
- * @desc    Accept a trip request
+ * @desc    Accept a trip offer (or a broadcasted trip request)
  * @access  Private (Ambulance)
  */
 router.post("/:tripId/accept", verifyAmbulanceJWT, acceptTrip);
 
+/**
+ * @route   POST /api/v2/trip/:tripId/decline
+ * @desc    Decline a trip offer (it cascades to the next ambulance)
+ * @access  Private (Ambulance)
+ */
+router.post("/:tripId/decline", verifyAmbulanceJWT, declineTrip);
+
 /**
  * @route   PATCH /api/v2/trip/:tripId/status
  * @desc    Update trip status
@@ -86,14 +141,83 @@ router.patch(
   updateTripStatusByAmbulance
 );
 
+/**
+ * @route   PATCH /api/v2/trip/:tripId/geofence
+ * @desc    Turn automatic ARRIVED_PICKUP / ARRIVED_HOSPITAL detection on or off
+ * @access  Private (Ambulance)
+ */
+router.patch(
+  "/:tripId/geofence",
+  verifyAmbulanceJWT,
+  validate(z.object({ body: tripGeofenceSchema })),
+  updateTripGeofence
+);
+
+/**
+ * @route   POST /api/v2/trip/:tripId/reassign
+ * @desc    Release the assigned ambulance (breakdown) and dispatch a replacement
+ * @access  Private (Ambulance/Admin)
+ */
+router.post(
+  "/:tripId/reassign",
+  verifyJWT,
+  validate(z.object({ body: reassignTripSchema })),
+  reassignAmbulance
+);
+
+/**
+ * @route   PATCH /api/v2/trip/:tripId/care-record
+ * @desc    Record patient care (chief complaint, vitals, GCS, interventions, medications)
+ * @access  Private (Ambulance)
+ */
+router.patch(
+  "/:tripId/care-record",
+  verifyAmbulanceJWT,
+  validate(z.object({ body: recordCareSchema })),
+  recordPatientCare
+);
+
+/**
+ * @route   POST /api/v2/trip/:tripId/care-record/amendments
+ * @desc    Amend a care record locked at trip completion
+ * @access  Private (Ambulance/Admin)
+ */
+router.post(
+  "/:tripId/care-record/amendments",
+  verifyJWT,
+  validate(z.object({ body: amendCareRecordSchema })),
+  amendPatientCareRecord
+);
+
 // ============================================
 // SHARED ROUTES (User/Ambulance/Admin)
 // ============================================
 
+/**
+ * @route   GET /api/v2/trip/:tripId/care-record
+ * @desc    Get the patient care record of a trip
+ * @access  Private (Ambulance/Hospital/Admin)
+ */
+router.get("/:tripId/care-record", verifyJWT, getTripCareRecord);
+
+/**
+ * @route   GET /api/v2/trip/:tripId/track
+ * @desc    Recorded path as GeoJSON (LineString + timeline status markers)
+ * @access  Private (Hospital/Admin)
+ */
+router.get("/:tripId/track", verifyJWT, getTripTrack);
+
+/**
+ * @route   GET /api/v2/trip/:tripId/track/gpx
+ * @desc    Download the recorded path as GPX
+ * @access  Private (Hospital/Admin)
+ */
+router.get("/:tripId/track/gpx", verifyJWT, exportTripTrackGpx);
+
 /**
  * @route   GET /api/v2/trip/:tripId
  * @desc    Get trip details by ID
- * @access  Private (User/Ambulance/Admin)
+ * @access  Private (User/Ambulance/Hospital/Admin)
  */
 router.get("/:tripId", verifyJWT, getTripById);
 
@@ -103,7 +227,7 @@ router.get("/:tripId", verifyJWT, getTripById);
 
 /**
  * @route   GET /api/v2/trip/all
- * @desc    Get all trips with filters
+ * @desc    Get all trips with filters (status, triageLevel, type, page, limit)
  * @access  Private (Admin)
  */
 router.get("/admin/all", verifyAdminJWT, getAllTrips);
@@ -0,0 +1,245 @@
+import { CareRecord } from "../model/care-record.model.js";
+import type {
+  ICareRecord,
+  IMedication,
+} from "../model/care-record.model.js";
+import { Trip } from "../model/trip.model.js";
+import type { TripStatus } from "../model/trip.model.js";
+import type {
+  RecordCareInput,
+  AmendCareRecordInput,
+} from "../trip.dto/trip.dto.js";
+import { ApiError } from "../../../shared/utils/ApiError.js";
+import { getIO } from "../../../shared/infra/sockets/socket.config.js";
+
+// What the crew records (validated by the DTO schemas); every entry time defaults to now
+type CareRecordEntriesInput = RecordCareInput;
+
+interface AmendCareRecordOptions {
+  amendedBy: string; // "ambulance:ID" or "admin:ID"
+  ambulanceId?: string; // Set when the crew amends (must be the trip's crew)
+}
+
+// The crew can document the patient from acceptance until handover
+const RECORDING_STATUSES: TripStatus[] = [
+  "ACCEPTED",
+  "ARRIVED_PICKUP",
+  "EN_ROUTE_HOSPITAL",
+  "ARRIVED_HOSPITAL",
+];
+
+/**
+ * Turn the input into a $set / $push update (entry times default to now)
+ */
+const buildEntriesUpdate = (input: CareRecordEntriesInput) => {
+  const now = new Date();
+
+  const $set = {
+    ...(input.chiefComplaint && { chiefComplaint: input.chiefComplaint }),
+    ...(input.notes && { notes: input.notes }),
+  };
+
+  const push: Record<string, unknown[]> = {
+    vitals: (input.vitals ?? []).map((vitals) => ({
+      ...vitals,
+      recordedAt: vitals.recordedAt ?? now,
+    })),
+    gcs: (input.gcs ?? []).map((gcs) => ({
+      ...gcs,
+      total: gcs.eye + gcs.verbal + gcs.motor,
+      recordedAt: gcs.recordedAt ?? now,
+    })),
+    interventions: (input.interventions ?? []).map((intervention) => ({
+      ...intervention,
+      performedAt: intervention.performedAt ?? now,
+    })),
+    medications: (input.medications ?? []).map(
+      (medication): IMedication => ({
+        ...medication,
+        administeredAt: medication.administeredAt ?? now,
+      })
+    ),
+  };
+
+  const $push = Object.fromEntries(
+    Object.entries(push)
+      .filter(([, entries]) => entries.length > 0)
+      .map(([field, entries]) => [field, { $each: entries }])
+  );
+
+  return { $set, $push };
+};
+
+/**
+ * Notify the destination hospital that the care record changed
+ */
+const emitCareRecordUpdated = (record: ICareRecord): void => {
+  if (!record.hospitalId) return;
+
+  try {
+    getIO().to(`hospital:${record.hospitalId}`).emit("care_record_updated", {
+      tripId: record.tripId.toString(),
+      status: record.status,
+      amended: record.amendments.length > 0,
+      careRecord: record,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (socketError) {
+    console.error("Socket emission error:", socketError);
+  }
+};
+
+/**
+ * Record care entries for an active trip (creates the record on first entry)
+ * Scalar fields (chief complaint, notes) are overwritten, vitals / GCS /
+ * interventions / medications are appended to their series.
+ */
+const recordCareEntries = async (
+  tripId: string,
+  ambulanceId: string,
+  input: CareRecordEntriesInput
+): Promise<ICareRecord> => {
+  const trip = await Trip.findById(tripId).select(
+    "status ambulanceId destinationHospitalId"
+  );
+  if (!trip) {
+    throw new ApiError(404, "Trip not found");
+  }
+
+  if (trip.ambulanceId?.toString() !== ambulanceId) {
+    throw new ApiError(403, "Only the assigned crew can record patient care");
+  }
+
+  if (!RECORDING_STATUSES.includes(trip.status)) {
+    throw new ApiError(
+      409,
+      `Cannot record patient care for a trip in ${trip.status} status`
+    );
+  }
+
+  const { $set, $push } = buildEntriesUpdate(input);
+
+  // Conditional on OPEN so a record locked in the meantime is never changed
+  const record = await CareRecord.findOneAndUpdate(
+    { tripId, status: "OPEN" },
+    {
+      $set: {
+        ...$set,
+        hospitalId: trip.destinationHospitalId ?? null,
+        lastUpdatedBy: `ambulance:${ambulanceId}`,
+      },
+      $setOnInsert: { ambulanceId },
+      ...(Object.keys($push).length > 0 && { $push }),
+    },
+    { new: true, upsert: true, runValidators: true }
+  ).catch((error) => {
+    // Upsert hit the unique tripId index: the record exists but is locked
+    if (error?.code === 11000) {
+      throw new ApiError(409, "Care record is locked, submit an amendment");
+    }
+    throw error;
+  });
+
+  emitCareRecordUpdated(record);
+
+  return record;
+};
+
+/**
+ * Lock the care record when the patient is handed over (trip COMPLETED)
+ */
+const lockCareRecord = async (tripId: string): Promise<void> => {
+  const record = await CareRecord.findOneAndUpdate(
+    { tripId, status: "OPEN" },
+    { $set: { status: "LOCKED", lockedAt: new Date() } },
+    { new: true }
+  );
+
+  if (record) {
+    console.log(`🔒 Care record locked for trip ${tripId}`);
+    emitCareRecordUpdated(record);
+  }
+};
+
+/**
+ * Amend a locked care record
+ * The change is applied like a normal entry and kept in the amendments list
+ * together with the previous chief complaint / notes, so the original stays traceable.
+ */
+const amendCareRecord = async (
+  tripId: string,
+  input: AmendCareRecordInput,
+  options: AmendCareRecordOptions
+): Promise<ICareRecord> => {
+  const { reason, ...entries } = input;
+  const { amendedBy, ambulanceId } = options;
+
+  if (ambulanceId) {
+    const trip = await Trip.findById(tripId).select("ambulanceId");
+    if (trip?.ambulanceId?.toString() !== ambulanceId) {
+      throw new ApiError(403, "Only the trip's crew can amend its care record");
+    }
+  }
+
+  const existing = await CareRecord.findOne({ tripId });
+  if (!existing) {
+    throw new ApiError(404, "Care record not found");
+  }
+
+  if (existing.status !== "LOCKED") {
+    throw new ApiError(409, "Care record is still open, update it directly");
+  }
+
+  const { $set, $push } = buildEntriesUpdate(entries);
+
+  const previous = Object.fromEntries(
+    Object.keys($set).map((field) => [
+      field,
+      existing.get(field) ?? null,
+    ])
+  );
+
+  const record = await CareRecord.findOneAndUpdate(
+    { _id: existing._id, status: "LOCKED" },
+    {
+      $set: { ...$set, lastUpdatedBy: amendedBy },
+      $push: {
+        ...$push,
+        amendments: {
+          amendedBy,
+          amendedAt: new Date(),
+          reason,
+          changes: entries,
+          previous,
+        },
+      },
+    },
+    { new: true, runValidators: true }
+  );
+
+  if (!record) {
+    throw new ApiError(409, "Care record changed, please retry");
+  }
+
+  console.log(`📝 Care record amended for trip ${tripId} by ${amendedBy}`);
+  emitCareRecordUpdated(record);
+
+  return record;
+};
+
+/**
+ * Get the care record of a trip
+ */
+const getCareRecord = async (tripId: string): Promise<ICareRecord> => {
+  const record = await CareRecord.findOne({ tripId })
+    .populate("ambulanceId", "driverName vehicleNumber")
+    .populate("hospitalId", "name");
+
+  if (!record) {
+    throw new ApiError(404, "Care record not found");
+  }
+
+  return record;
+};
+
+export { recordCareEntries, lockCareRecord, amendCareRecord, getCareRecord };
@@ -0,0 +1,543 @@
+import redis from "../../../config/redis.js";
+import {
+  TRIP_OFFER_TIMEOUT_SECONDS,
+  UNASSIGNED_ALERT_THRESHOLD_SECONDS,
+} from "../../../config/env.js";
+import { Trip } from "../model/trip.model.js";
+import type { ITrip, TriageLevel } from "../model/trip.model.js";
+import { Ambulance } from "../../ambulance/model/ambulance.model.js";
+import { findNearbyAmbulances } from "../../ambulance/services/ambulance.service.js";
+import type { NearbyAmbulanceResult } from "../../ambulance/services/ambulance.service.js";
+import { ApiError } from "../../../shared/utils/ApiError.js";
+import { getIO } from "../../../shared/infra/sockets/socket.config.js";
+import { estimateEtas, formatEta } from "../../../shared/infra/eta/eta.service.js";
+import type { EtaResult } from "../../../shared/infra/eta/eta.provider.js";
+import { getSearchConfig } from "../../region/services/region.service.js";
+import type { ResolvedSearchConfig } from "../../region/services/region.service.js";
+import {
+  scheduleOfferTimeout,
+  cancelOfferTimeout,
+} from "../../../shared/infra/queues/dispatch.queue.js";
+
+/**
+ * Redis keys used by the offer flow
+ * - trip_offer:<tripId>                 -> ambulanceId currently holding the offer
+ * - trip_offer:<tripId>:<ambulanceId>   -> exists while that offer is pending (deleting it "answers" the offer)
+ * - trip_offer_candidates:<tripId>      -> list of remaining candidates (JSON, nearest first)
+ * - trip_offer_declined:<tripId>        -> set of ambulances that declined or let the offer expire
+ * - ambulance_offer:<ambulanceId>       -> tripId, so an ambulance never holds two offers at once
+ */
+const currentOfferKey = (tripId: string) => `trip_offer:${tripId}`;
+const pendingOfferKey = (tripId: string, ambulanceId: string) =>
+  `trip_offer:${tripId}:${ambulanceId}`;
+const candidatesKey = (tripId: string) => `trip_offer_candidates:${tripId}`;
+const declinedKey = (tripId: string) => `trip_offer_declined:${tripId}`;
+const ambulanceOfferKey = (ambulanceId: string) => `ambulance_offer:${ambulanceId}`;
+
+// Candidate lists are only useful while the trip is searching
+const DISPATCH_STATE_TTL_SECONDS = 60 * 60;
+
+// Sweeper widens the search by 10km for every minute a trip waits, up to the region's max radius
+const SWEEP_RADIUS_STEP_KM = 10;
+
+interface OfferCandidate {
+  ambulanceId: string;
+  distance: number; // straight-line, in meters
+  eta: EtaResult; // travel time to the pickup
+  capabilityDowngraded: boolean;
+}
+
+/**
+ * Rank candidates by travel time to the pickup (fastest first)
+ * Straight-line distance only decides who is searched, ETA decides who is offered first.
+ */
+const rankCandidatesByEta = async (
+  candidates: NearbyAmbulanceResult[],
+  pickup: [number, number]
+): Promise<OfferCandidate[]> => {
+  const withLocation = candidates.filter(
+    (candidate) => candidate.ambulanceData?.location?.coordinates
+  );
+  const origins = withLocation.map((candidate): [number, number] => {
+    const [lng, lat] = candidate.ambulanceData!.location.coordinates;
+    return [lng, lat];
+  });
+
+  const etas = await estimateEtas(origins, pickup);
+
+  return withLocation
+    .map((candidate, index) => ({
+      ambulanceId: candidate.ambulanceId,
+      distance: candidate.distance,
+      eta: etas[index]!,
+      capabilityDowngraded: candidate.capabilityDowngraded,
+    }))
+    .sort((a, b) => a.eta.durationSeconds - b.eta.durationSeconds);
+};
+
+/**
+ * Where the ambulance has to go to collect the patient
+ * After a reassignment that is where the patient was when the unit was replaced;
+ * `pickup` itself always keeps the original request.
+ */
+const getPickupTarget = (
+  trip: Pick<ITrip, "pickup"> & { reassignments?: ITrip["reassignments"] }
+): [number, number] => {
+  const lastReassignment = trip.reassignments?.[trip.reassignments.length - 1];
+  return lastReassignment?.location?.length === 2
+    ? lastReassignment.location
+    : trip.pickup.coordinates;
+};
+
+/**
+ * Start the offer flow for a SEARCHING trip
+ * Ranks the candidates by ETA and offers the trip to the first available one
+ * @returns true if an offer was sent, false if it fell back to a broadcast
+ */
+const startTripDispatch = async (
+  tripId: string,
+  candidates: NearbyAmbulanceResult[]
+): Promise<boolean> => {
+  const key = candidatesKey(tripId);
+  await redis.del(key);
+
+  const trip = await Trip.findById(tripId).select("pickup reassignments").lean();
+
+  if (trip && candidates.length > 0) {
+    const ranked = await rankCandidatesByEta(candidates, getPickupTarget(trip));
+
+    if (ranked.length > 0) {
+      await redis.rPush(
+        key,
+        ranked.map((candidate) => JSON.stringify(candidate))
+      );
+      await redis.expire(key, DISPATCH_STATE_TTL_SECONDS);
+    }
+  }
+
+  return offerTripToNextAmbulance(tripId);
+};
+
+/**
+ * Offer the trip to the next candidate in line
+ * Skips ambulances that already declined, are holding another offer or are no longer ready.
+ * When the list is exhausted the trip is broadcast to all ambulances (manual accept).
+ */
+const offerTripToNextAmbulance = async (tripId: string): Promise<boolean> => {
+  const trip = await Trip.findById(tripId).lean();
+
+  if (!trip || trip.status !== "SEARCHING") {
+    await clearTripOffer(tripId);
+    return false;
+  }
+
+  while (true) {
+    const raw = await redis.lPop(candidatesKey(tripId));
+    if (!raw) break;
+
+    const candidate = JSON.parse(raw) as OfferCandidate;
+    const { ambulanceId } = candidate;
+
+    if (await redis.sIsMember(declinedKey(tripId), ambulanceId)) {
+      continue;
+    }
+
+    // Reserve the ambulance for this offer (fails if it is holding another one,
+    // unless that offer is for a lower priority trip)
+    const locked = await redis.set(ambulanceOfferKey(ambulanceId), tripId, {
+      NX: true,
+      EX: TRIP_OFFER_TIMEOUT_SECONDS + 5,
+    });
+    if (
+      !locked &&
+      !(await preemptLowerPriorityOffer(ambulanceId, tripId, trip.triageLevel))
+    ) {
+      continue;
+    }
+
+    const ambulance = await Ambulance.findById(ambulanceId).select(
+      "-password -refreshToken"
+    );
+    if (!ambulance || ambulance.status !== "ready") {
+      await redis.del(ambulanceOfferKey(ambulanceId));
+      continue;
+    }
+
+    const expiresAt = new Date(Date.now() + TRIP_OFFER_TIMEOUT_SECONDS * 1000);
+
+    await redis.set(currentOfferKey(tripId), ambulanceId, {
+      EX: DISPATCH_STATE_TTL_SECONDS,
+    });
+    await redis.set(pendingOfferKey(tripId, ambulanceId), expiresAt.toISOString(), {
+      EX: DISPATCH_STATE_TTL_SECONDS,
+    });
+    await scheduleOfferTimeout(
+      { tripId, ambulanceId },
+      TRIP_OFFER_TIMEOUT_SECONDS * 1000
+    );
+
+    try {
+      const io = getIO();
+
+      io.to(`ambulance:${ambulanceId}`).emit("trip_offer", {
+        tripId,
+        pickup: trip.pickup,
+        pickupLocation: getPickupTarget(trip),
+        dropoff: trip.dropoff,
+        patientSnapshot: trip.patientSnapshot,
+        triageLevel: trip.triageLevel,
+        ...(trip.scheduledPickup?.windowStart && {
+          scheduledPickup: trip.scheduledPickup,
+        }),
+        distance: candidate.distance,
+        distanceKm: (candidate.distance / 1000).toFixed(1),
+        eta: candidate.eta,
+        estimatedArrival: formatEta(candidate.eta.durationSeconds),
+        requiredCapability: trip.requiredCapability,
+        capabilityDowngraded: candidate.capabilityDowngraded,
+        timeoutSeconds: TRIP_OFFER_TIMEOUT_SECONDS,
+        expiresAt: expiresAt.toISOString(),
+        message: "New trip offer. Accept before it expires!",
+      });
+
+      io.to("admin-room").emit("trip_offer_sent", {
+        tripId,
+        ambulanceId,
+        distance: candidate.distance,
+        eta: candidate.eta,
+        expiresAt: expiresAt.toISOString(),
+        timestamp: new Date().toISOString(),
+      });
+    } catch (socketError) {
+      console.error("Socket emission error:", socketError);
+    }
+
+    console.log(
+      `📨 Offered trip ${tripId} to ambulance ${ambulanceId} (expires in ${TRIP_OFFER_TIMEOUT_SECONDS}s)`
+    );
+    return true;
+  }
+
+  // No candidate left - fall back to broadcasting (any ambulance can manually accept)
+  // The declined set is kept so the sweeper does not offer the trip to them again
+  try {
+    const io = getIO();
+    io.to("ambulance-room").emit("new_trip_request", {
+      tripId,
+      triageLevel: trip.triageLevel,
+      pickup: trip.pickup,
+      pickupLocation: getPickupTarget(trip),
+      patientSnapshot: trip.patientSnapshot,
+      timestamp: new Date().toISOString(),
+    });
+
+    console.log(
+      `📢 Broadcasted trip ${tripId} to ambulance-room (no ambulance accepted the offer)`
+    );
+  } catch (socketError) {
+    console.error("Socket emission error:", socketError);
+  }
+
+  return false;
+};
+
+/**
+ * Mark an offer as answered. Only one caller can win (accept, decline or timeout).
+ */
+const consumeOffer = async (
+  tripId: string,
+  ambulanceId: string
+): Promise<boolean> => {
+  const removed = await redis.del(pendingOfferKey(tripId, ambulanceId));
+  if (removed === 0) {
+    return false;
+  }
+
+  if ((await redis.get(currentOfferKey(tripId))) === ambulanceId) {
+    await redis.del(currentOfferKey(tripId));
+  }
+  if ((await redis.get(ambulanceOfferKey(ambulanceId))) === tripId) {
+    await redis.del(ambulanceOfferKey(ambulanceId));
+  }
+  return true;
+};
+
+/**
+ * Take an ambulance away from a pending offer for a lower priority trip
+ * The preempted trip moves on to its next candidate.
+ * @returns true if the ambulance is now reserved for `tripId`
+ */
+const preemptLowerPriorityOffer = async (
+  ambulanceId: string,
+  tripId: string,
+  triageLevel: TriageLevel
+): Promise<boolean> => {
+  const heldTripId = await redis.get(ambulanceOfferKey(ambulanceId));
+  if (!heldTripId || heldTripId === tripId) {
+    return false;
+  }
+
+  const heldTrip = await Trip.findById(heldTripId).select("triageLevel").lean();
+  // "P1" < "P2" < ... so a smaller string means a more urgent trip
+  if (heldTrip && heldTrip.triageLevel <= triageLevel) {
+    return false;
+  }
+
+  if (!(await consumeOffer(heldTripId, ambulanceId))) {
+    // Offer was answered in the meantime
+    return false;
+  }
+  await cancelOfferTimeout(heldTripId, ambulanceId);
+
+  try {
+    getIO().to(`ambulance:${ambulanceId}`).emit("trip_offer_revoked", {
+      tripId: heldTripId,
+      reason: "preempted",
+      timestamp: new Date().toISOString(),
+    });
+  } catch (socketError) {
+    console.error("Socket emission error:", socketError);
+  }
+
+  console.log(
+    `⚡ Ambulance ${ambulanceId} preempted from trip ${heldTripId} for ${triageLevel} trip ${tripId}`
+  );
+
+  const locked = await redis.set(ambulanceOfferKey(ambulanceId), tripId, {
+    NX: true,
+    EX: TRIP_OFFER_TIMEOUT_SECONDS + 5,
+  });
+
+  // Let the preempted trip continue with its own candidates
+  offerTripToNextAmbulance(heldTripId).catch((error) => {
+    console.error(`Failed to re-offer preempted trip ${heldTripId}:`, error);
+  });
+
+  return Boolean(locked);
+};
+
+/**
+ * Get the ambulance currently holding the offer for a trip (if any)
+ */
+const getPendingOfferAmbulanceId = async (
+  tripId: string
+): Promise<string | null> => {
+  return redis.get(currentOfferKey(tripId));
+};
+
+/**
+ * Ambulance declines the trip offer - cascade to the next candidate
+ */
+const declineTripOffer = async (
+  tripId: string,
+  ambulanceId: string
+): Promise<void> => {
+  const consumed = await consumeOffer(tripId, ambulanceId);
+  if (!consumed) {
+    throw new ApiError(409, "No pending offer for this ambulance on this trip");
+  }
+
+  await cancelOfferTimeout(tripId, ambulanceId);
+  await redis.sAdd(declinedKey(tripId), ambulanceId);
+  await redis.expire(declinedKey(tripId), DISPATCH_STATE_TTL_SECONDS);
+
+  console.log(`🙅 Ambulance ${ambulanceId} declined trip ${tripId}`);
+
+  await offerTripToNextAmbulance(tripId);
+};
+
+/**
+ * Offer timed out (called from the dispatch worker) - cascade to the next candidate
+ */
+const expireTripOffer = async (
+  tripId: string,
+  ambulanceId: string
+): Promise<void> => {
+  const consumed = await consumeOffer(tripId, ambulanceId);
+  if (!consumed) {
+    // Already accepted or declined
+    return;
+  }
+
+  await redis.sAdd(declinedKey(tripId), ambulanceId);
+  await redis.expire(declinedKey(tripId), DISPATCH_STATE_TTL_SECONDS);
+
+  try {
+    getIO().to(`ambulance:${ambulanceId}`).emit("trip_offer_expired", {
+      tripId,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (socketError) {
+    console.error("Socket emission error:", socketError);
+  }
+
+  console.log(`⏰ Offer for trip ${tripId} to ambulance ${ambulanceId} expired`);
+
+  await offerTripToNextAmbulance(tripId);
+};
+
+/**
+ * Mark the offer as accepted by this ambulance (stops the timeout)
+ */
+const completeTripOffer = async (
+  tripId: string,
+  ambulanceId: string
+): Promise<void> => {
+  if (await consumeOffer(tripId, ambulanceId)) {
+    await cancelOfferTimeout(tripId, ambulanceId);
+  }
+  await clearTripOffer(tripId);
+};
+
+/**
+ * Drop all offer state for a trip (accepted elsewhere, cancelled, ...)
+ * The ambulance holding a pending offer is told it was revoked.
+ */
+const clearTripOffer = async (tripId: string): Promise<void> => {
+  try {
+    const ambulanceId = await redis.get(currentOfferKey(tripId));
+
+    if (ambulanceId && (await consumeOffer(tripId, ambulanceId))) {
+      await cancelOfferTimeout(tripId, ambulanceId);
+
+      try {
+        getIO().to(`ambulance:${ambulanceId}`).emit("trip_offer_revoked", {
+          tripId,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (socketError) {
+        console.error("Socket emission error:", socketError);
+      }
+    }
+
+    await redis.del([
+      currentOfferKey(tripId),
+      candidatesKey(tripId),
+      declinedKey(tripId),
+    ]);
+  } catch (error) {
+    console.error(`Failed to clear offer state for trip ${tripId}:`, error);
+  }
+};
+
+/**
+ * Search radii for a trip that has been waiting for `waitingSeconds`
+ * Starts from the region's ladder and widens past its last step, capped at the region's max radius
+ */
+const getSweepSearchRadii = (
+  searchConfig: ResolvedSearchConfig,
+  waitingSeconds: number
+): number[] => {
+  const { radiiKm, maxRadiusKm } = searchConfig;
+  const ladderMax = radiiKm[radiiKm.length - 1] ?? maxRadiusKm;
+  const widened = Math.min(
+    ladderMax + Math.floor(waitingSeconds / 60) * SWEEP_RADIUS_STEP_KM,
+    maxRadiusKm
+  );
+
+  return widened > ladderMax ? [...radiiKm, widened] : radiiKm;
+};
+
+/**
+ * Re-dispatch every trip stuck in SEARCHING (run periodically by the dispatch worker)
+ * Trips are processed by triage level so higher priority trips get offers first
+ * 1. Skip trips that currently have a pending offer
+ * 2. Re-run the ambulance search with a radius that grows with the waiting time
+ * 3. Offer the trip to units that have not declined it yet
+ * 4. Alert admins once a trip has waited longer than the threshold
+ */
+const sweepSearchingTrips = async (): Promise<void> => {
+  // Most urgent first (P1 → P4), then oldest first, so scarce units go to critical patients
+  const trips = await Trip.find({ status: "SEARCHING" })
+    .sort({ triageLevel: 1, createdAt: 1 })
+    .lean();
+
+  for (const trip of trips) {
+    const tripId = trip._id.toString();
+
+    try {
+      // Scheduled trips only start searching at their lead time, not when they were booked
+      const searchingSince = trip.searchStartedAt ?? trip.createdAt;
+      const waitingSeconds = Math.floor(
+        (Date.now() - new Date(searchingSince).getTime()) / 1000
+      );
+      const [lng, lat] = getPickupTarget(trip);
+      const searchConfig = await getSearchConfig(lng, lat, "ambulance");
+      const searchRadii = getSweepSearchRadii(searchConfig, waitingSeconds);
+      const searchRadiusKm = searchRadii[searchRadii.length - 1];
+
+      if (!(await getPendingOfferAmbulanceId(tripId))) {
+        const nearbyAmbulances = await findNearbyAmbulances(
+          lng,
+          lat,
+          searchConfig.candidateCount,
+          {
+            searchRadii,
+            ...(trip.requiredCapability && {
+              requiredCapability: trip.requiredCapability,
+            }),
+          }
+        );
+
+        const declined = new Set(await redis.sMembers(declinedKey(tripId)));
+        const newCandidates = nearbyAmbulances.filter(
+          (candidate) => !declined.has(candidate.ambulanceId)
+        );
+
+        if (newCandidates.length > 0) {
+          console.log(
+            `🔁 Re-dispatching trip ${tripId} to ${newCandidates.length} new unit(s) within ${searchRadiusKm}km`
+          );
+          await startTripDispatch(tripId, newCandidates);
+        }
+      }
+
+      // Escalate once per trip
+      if (
+        !trip.unassignedAlertAt &&
+        waitingSeconds >= UNASSIGNED_ALERT_THRESHOLD_SECONDS
+      ) {
+        const escalated = await Trip.findOneAndUpdate(
+          { _id: tripId, status: "SEARCHING", unassignedAlertAt: { $exists: false } },
+          { $set: { unassignedAlertAt: new Date() } }
+        );
+
+        if (escalated) {
+          try {
+            getIO().to("admin-room").emit("trip_unassigned_alert", {
+              tripId,
+              userId: trip.userId,
+              triageLevel: trip.triageLevel,
+              pickup: trip.pickup,
+              patientSnapshot: trip.patientSnapshot,
+              waitingSeconds,
+              searchRadiusKm,
+              message: "No ambulance has accepted this trip yet",
+              timestamp: new Date().toISOString(),
+            });
+          } catch (socketError) {
+            console.error("Socket emission error:", socketError);
+          }
+
+          console.warn(
+            `🚨 Trip ${tripId} unassigned for ${waitingSeconds}s - admins alerted`
+          );
+        }
+      }
+    } catch (error) {
+      console.error(`❌ Sweep failed for trip ${tripId}:`, error);
+    }
+  }
+};
+
+export {
+  startTripDispatch,
+  offerTripToNextAmbulance,
+  getPendingOfferAmbulanceId,
+  declineTripOffer,
+  expireTripOffer,
+  completeTripOffer,
+  clearTripOffer,
+  sweepSearchingTrips,
+  getPickupTarget,
+};
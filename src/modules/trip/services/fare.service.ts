@@ -0,0 +1,255 @@
+import redis from "../../../config/redis.js";
+import { TARIFF } from "../../../config/tariff.config.js";
+import { Trip } from "../model/trip.model.js";
+import type { IFareBreakdown, TripStatus } from "../model/trip.model.js";
+import type {
+  AmbulanceCapability,
+  IAmbulance,
+} from "../../ambulance/model/ambulance.model.js";
+import type { IHospital } from "../../hospital/model/hospital.model.js";
+import { haversineDistance } from "../../../shared/utils/geo.util.js";
+import { getPickupTarget } from "./dispatch.service.js";
+
+type TripLeg = "toPickup" | "toHospital";
+
+// Which leg the ambulance is driving in each trip status (other statuses are not counted)
+const LEG_BY_STATUS: Partial<Record<TripStatus, TripLeg>> = {
+  ACCEPTED: "toPickup",
+  EN_ROUTE_HOSPITAL: "toHospital",
+};
+
+// GPS noise filters
+const MIN_SEGMENT_METERS = 10; // Smaller moves are jitter (the point is not kept either)
+const MAX_SPEED_MPS = 55; // ~200 km/h, faster jumps are GPS glitches
+const MAX_ACCURACY_METERS = 100; // Less precise fixes are ignored
+
+const DISTANCE_KEY_TTL_SECONDS = 24 * 60 * 60;
+
+const distanceKey = (tripId: string): string => `trip_distance:${tripId}`;
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Add an ambulance position to the distance travelled on the current leg
+ * Kept in a Redis hash per trip: meters per leg + the last counted point.
+ * The first point of a leg (or of a replacement ambulance) only sets the starting point.
+ */
+const recordTripPosition = async (
+  tripId: string,
+  ambulanceId: string,
+  status: TripStatus,
+  coordinates: [number, number],
+  accuracy?: number
+): Promise<void> => {
+  const leg = LEG_BY_STATUS[status];
+  if (!leg) return;
+  if (accuracy !== undefined && accuracy > MAX_ACCURACY_METERS) return;
+
+  const key = distanceKey(tripId);
+  const now = Date.now();
+  const last = await redis.hmGet(key, [
+    "lastLng",
+    "lastLat",
+    "lastAt",
+    "lastLeg",
+    "lastAmbulanceId",
+  ]);
+  const [lastLng, lastLat, lastAt, lastLeg, lastAmbulanceId] = last;
+
+  const lastPoint = {
+    lastLng: String(coordinates[0]),
+    lastLat: String(coordinates[1]),
+    lastAt: String(now),
+    lastLeg: leg,
+    lastAmbulanceId: ambulanceId,
+  };
+
+  // New leg or new ambulance: start counting from here
+  if (!lastLng || !lastLat || lastLeg !== leg || lastAmbulanceId !== ambulanceId) {
+    await redis
+      .multi()
+      .hSet(key, lastPoint)
+      .expire(key, DISTANCE_KEY_TTL_SECONDS)
+      .exec();
+    return;
+  }
+
+  const meters = haversineDistance(
+    [Number(lastLng), Number(lastLat)],
+    coordinates
+  );
+  const seconds = Math.max((now - Number(lastAt)) / 1000, 1);
+
+  if (meters < MIN_SEGMENT_METERS || meters / seconds > MAX_SPEED_MPS) return;
+
+  await redis
+    .multi()
+    .hIncrByFloat(key, leg, meters)
+    .hSet(key, lastPoint)
+    .expire(key, DISTANCE_KEY_TTL_SECONDS)
+    .exec();
+};
+
+/**
+ * Meters recorded per leg (null: no positions recorded for that leg)
+ */
+const getTripLegDistances = async (
+  tripId: string
+): Promise<Record<TripLeg, number | null>> => {
+  const [toPickup, toHospital] = await redis.hmGet(distanceKey(tripId), [
+    "toPickup",
+    "toHospital",
+  ]);
+
+  return {
+    toPickup: toPickup ? Number(toPickup) : null,
+    toHospital: toHospital ? Number(toHospital) : null,
+  };
+};
+
+/**
+ * Drop the recorded distance of a finished trip
+ */
+const clearTripDistance = async (tripId: string): Promise<void> => {
+  await redis.del(distanceKey(tripId));
+};
+
+/**
+ * Apply the tariff to a trip's distance, waiting time and ambulance class
+ */
+const calculateFare = (input: {
+  toPickupMeters: number;
+  toHospitalMeters: number;
+  distanceSource: IFareBreakdown["distanceSource"];
+  waitingSeconds: number;
+  capabilityClass?: AmbulanceCapability;
+}): IFareBreakdown => {
+  const { toPickupMeters, toHospitalMeters, distanceSource, waitingSeconds, capabilityClass } =
+    input;
+
+  const km = (toPickupMeters + toHospitalMeters) / 1000;
+  const distanceCharge = round2(km * TARIFF.perKm);
+
+  const waitingMinutes = Math.max(
+    Math.ceil(waitingSeconds / 60) - TARIFF.freeWaitingMinutes,
+    0
+  );
+  const waitingCharge = round2(waitingMinutes * TARIFF.waitingPerMinute);
+
+  const capabilitySurcharge = capabilityClass
+    ? TARIFF.capabilitySurcharge[capabilityClass]
+    : 0;
+
+  return {
+    currency: TARIFF.currency,
+    legs: {
+      toPickupMeters: Math.round(toPickupMeters),
+      toHospitalMeters: Math.round(toHospitalMeters),
+    },
+    distanceSource,
+    baseFare: TARIFF.baseFare,
+    distanceCharge,
+    waitingMinutes,
+    waitingCharge,
+    ...(capabilityClass && { capabilityClass }),
+    capabilitySurcharge,
+    total: round2(
+      TARIFF.baseFare + distanceCharge + waitingCharge + capabilitySurcharge
+    ),
+  };
+};
+
+/**
+ * Compute and store distance, cost and fare breakdown of a completed trip
+ * 1. Legs from the recorded GPS track; a leg without positions falls back to the
+ *    straight line (acceptance point → pickup, pickup → hospital)
+ * 2. Waiting time = arrival at pickup → leaving for the hospital
+ * 3. Surcharge by the class of the ambulance that completed the trip
+ * A reassigned trip is billed for the replacement's run only: the legs are reset on
+ * reassignment and only timeline entries after the last one are read.
+ */
+const finalizeTripFare = async (tripId: string): Promise<IFareBreakdown | null> => {
+  const trip = await Trip.findById(tripId).populate<{
+    ambulanceId: Pick<IAmbulance, "capabilityClass"> | null;
+    destinationHospitalId: Pick<IHospital, "location"> | null;
+  }>([
+    { path: "ambulanceId", select: "capabilityClass" },
+    { path: "destinationHospitalId", select: "location" },
+  ]);
+  if (!trip) return null;
+
+  const recorded = await getTripLegDistances(tripId);
+  const pickup = getPickupTarget(trip);
+
+  const reassignedAt =
+    trip.reassignments[trip.reassignments.length - 1]?.timestamp.getTime() ?? 0;
+  const timeline = trip.timeline.filter(
+    (entry) => entry.timestamp.getTime() >= reassignedAt
+  );
+  const findEntry = (status: TripStatus) =>
+    timeline.find((entry) => entry.status === status);
+
+  const acceptedAt = findEntry("ACCEPTED");
+  const arrivedAtPickup = findEntry("ARRIVED_PICKUP");
+  const leftPickup = findEntry("EN_ROUTE_HOSPITAL");
+  const hospitalLocation: [number, number] | undefined =
+    trip.destinationHospitalId?.location.coordinates ??
+    (trip.dropoff?.coordinates?.length === 2
+      ? (trip.dropoff.coordinates as [number, number])
+      : undefined);
+
+  const toPickupMeters =
+    recorded.toPickup ??
+    (acceptedAt?.location ? haversineDistance(acceptedAt.location, pickup) : 0);
+  const toHospitalMeters =
+    recorded.toHospital ??
+    (hospitalLocation ? haversineDistance(pickup, hospitalLocation) : 0);
+
+  const waitingSeconds =
+    arrivedAtPickup && leftPickup
+      ? Math.max(
+          (leftPickup.timestamp.getTime() - arrivedAtPickup.timestamp.getTime()) /
+            1000,
+          0
+        )
+      : 0;
+
+  const capabilityClass = trip.ambulanceId?.capabilityClass;
+
+  const fare = calculateFare({
+    toPickupMeters,
+    toHospitalMeters,
+    distanceSource:
+      recorded.toPickup !== null && recorded.toHospital !== null
+        ? "gps"
+        : "estimated",
+    waitingSeconds,
+    ...(capabilityClass && { capabilityClass }),
+  });
+
+  await Trip.updateOne(
+    { _id: tripId },
+    {
+      $set: {
+        distance: round2((toPickupMeters + toHospitalMeters) / 1000),
+        cost: fare.total,
+        fareBreakdown: fare,
+      },
+    }
+  );
+  await clearTripDistance(tripId);
+
+  console.log(
+    `💰 Fare for trip ${tripId}: ${fare.total} ${fare.currency} (${fare.distanceSource})`
+  );
+
+  return fare;
+};
+
+export {
+  recordTripPosition,
+  getTripLegDistances,
+  clearTripDistance,
+  calculateFare,
+  finalizeTripFare,
+};
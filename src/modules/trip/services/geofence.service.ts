@@ -0,0 +1,118 @@
+import redis from "../../../config/redis.js";
+import { GEOFENCE_RADIUS_METERS } from "../../../config/env.js";
+import { Trip } from "../model/trip.model.js";
+import type { ITrip, TripStatus } from "../model/trip.model.js";
+import { ApiError } from "../../../shared/utils/ApiError.js";
+import { haversineDistance } from "../../../shared/utils/geo.util.js";
+import { updateTripStatus } from "./trip.service.js";
+import { getPickupTarget } from "./dispatch.service.js";
+
+// Trip fields the geofence check needs (the location handler passes its lean trip)
+type GeofenceTrip = Pick<
+  ITrip,
+  "status" | "pickup" | "dropoff" | "geofenceEnabled"
+> & { _id: unknown; reassignments?: ITrip["reassignments"] };
+
+const GEOFENCE_UPDATED_BY = "system:geofence";
+
+/**
+ * Which fence the ambulance is heading to in each status, and the status entering it sets
+ */
+const getActiveFence = (
+  trip: GeofenceTrip
+): { center: [number, number]; nextStatus: TripStatus } | null => {
+  if (trip.status === "ACCEPTED") {
+    return { center: getPickupTarget(trip), nextStatus: "ARRIVED_PICKUP" };
+  }
+
+  const dropoff = trip.dropoff?.coordinates;
+  if (trip.status === "EN_ROUTE_HOSPITAL" && dropoff?.length === 2) {
+    return {
+      center: dropoff as [number, number],
+      nextStatus: "ARRIVED_HOSPITAL",
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Advance the trip when the ambulance enters the pickup / dropoff radius
+ * - ACCEPTED → ARRIVED_PICKUP within GEOFENCE_RADIUS_METERS of the pickup target
+ *   (pickup.coordinates, or the patient's location after a reassignment)
+ * - EN_ROUTE_HOSPITAL → ARRIVED_HOSPITAL within GEOFENCE_RADIUS_METERS of dropoff.coordinates
+ * Fixes less precise than the radius are ignored, and a short Redis lock makes sure
+ * a burst of updates inside the fence only triggers one transition.
+ * @returns the new status, or null if nothing changed
+ */
+const checkTripGeofence = async (
+  trip: GeofenceTrip,
+  coordinates: [number, number],
+  accuracy?: number
+): Promise<TripStatus | null> => {
+  if (trip.geofenceEnabled === false) return null;
+  if (accuracy !== undefined && accuracy > GEOFENCE_RADIUS_METERS) return null;
+
+  const fence = getActiveFence(trip);
+  if (!fence) return null;
+
+  if (haversineDistance(coordinates, fence.center) > GEOFENCE_RADIUS_METERS) {
+    return null;
+  }
+
+  const tripId = String(trip._id);
+  const locked = await redis.set(
+    `geofence_lock:${tripId}:${fence.nextStatus}`,
+    "1",
+    { NX: true, EX: 60 }
+  );
+  if (!locked) return null;
+
+  try {
+    await updateTripStatus({
+      tripId,
+      status: fence.nextStatus,
+      location: coordinates,
+      updatedBy: GEOFENCE_UPDATED_BY,
+    });
+  } catch (error) {
+    // Driver updated the status manually in the meantime
+    if (
+      error instanceof ApiError &&
+      (error.statusCode === 400 || error.statusCode === 409)
+    ) {
+      return null;
+    }
+    throw error;
+  }
+
+  console.log(`📍 Geofence: trip ${tripId} → ${fence.nextStatus}`);
+  return fence.nextStatus;
+};
+
+/**
+ * Driver override: turn automatic arrival detection on or off for a trip
+ */
+const setTripGeofence = async (
+  tripId: string,
+  ambulanceId: string,
+  enabled: boolean
+): Promise<ITrip> => {
+  const trip = await Trip.findOneAndUpdate(
+    { _id: tripId, ambulanceId },
+    { $set: { geofenceEnabled: enabled } },
+    { new: true }
+  );
+
+  if (!trip) {
+    throw new ApiError(404, "Trip not found or not assigned to you");
+  }
+
+  console.log(
+    `📍 Geofence ${enabled ? "enabled" : "disabled"} for trip ${tripId} by ambulance ${ambulanceId}`
+  );
+
+  return trip;
+};
+
+export { checkTripGeofence, setTripGeofence };
@@ -0,0 +1,192 @@
+import redis from "../../../config/redis.js";
+import { Trip } from "../model/trip.model.js";
+import type { ITrip, TripStatus } from "../model/trip.model.js";
+import { Ambulance } from "../../ambulance/model/ambulance.model.js";
+import {
+  findNearbyAmbulances,
+  removeAmbulanceFromRedis,
+} from "../../ambulance/services/ambulance.service.js";
+import { ApiError } from "../../../shared/utils/ApiError.js";
+import { getCachedLocation } from "../../../shared/utils/location.util.js";
+import { getIO } from "../../../shared/infra/sockets/socket.config.js";
+import {
+  startTripDispatch,
+  clearTripOffer,
+  getPickupTarget,
+} from "./dispatch.service.js";
+import { emitTripStatusUpdated } from "./trip.service.js";
+import { clearTripDistance } from "./fare.service.js";
+
+interface ReassignTripInput {
+  tripId: string;
+  reason: string;
+  requestedBy: string; // "ambulance:ID" or "admin:ID"
+  ambulanceId?: string; // Set when the driver asks (must be the assigned unit)
+}
+
+// A replacement makes sense until the patient has reached the hospital
+const REASSIGNABLE_STATUSES: TripStatus[] = [
+  "ACCEPTED",
+  "ARRIVED_PICKUP",
+  "EN_ROUTE_HOSPITAL",
+];
+
+/**
+ * Where the replacement ambulance has to go
+ * - Before pickup: the patient's live location, else the pickup target
+ * - Patient on board: the failed ambulance's live location, else its last known location
+ */
+const getPatientLocation = async (
+  trip: ITrip,
+  failedAmbulanceLocation: [number, number] | undefined
+): Promise<[number, number]> => {
+  const tripId = trip._id!.toString();
+
+  if (trip.status === "ACCEPTED") {
+    return (await getCachedLocation("user", tripId)) ?? getPickupTarget(trip);
+  }
+
+  return (
+    (await getCachedLocation("ambulance", tripId)) ??
+    failedAmbulanceLocation ??
+    getPickupTarget(trip)
+  );
+};
+
+/**
+ * Replace the assigned ambulance mid-trip (breakdown, crew issue, ...)
+ * 1. Take the failed unit off the trip and out of the pool (marked offline)
+ * 2. Put the trip back to SEARCHING at the patient's current location,
+ *    keeping the trip id, timeline, original pickup and a record of the reassignment
+ *    (its location is where dispatch sends the replacement, see getPickupTarget)
+ * 3. Notify the trip room with ambulance_reassigned
+ * 4. Dispatch a replacement through the normal offer flow
+ */
+const reassignTripAmbulance = async (
+  input: ReassignTripInput
+): Promise<ITrip> => {
+  const { tripId, reason, requestedBy, ambulanceId } = input;
+
+  const trip = await Trip.findById(tripId);
+  if (!trip) {
+    throw new ApiError(404, "Trip not found");
+  }
+
+  if (!REASSIGNABLE_STATUSES.includes(trip.status)) {
+    throw new ApiError(
+      409,
+      `Trip cannot be reassigned in ${trip.status} state`
+    );
+  }
+
+  if (!trip.ambulanceId) {
+    throw new ApiError(409, "Trip has no assigned ambulance");
+  }
+
+  const failedAmbulanceId = trip.ambulanceId.toString();
+  if (ambulanceId && ambulanceId !== failedAmbulanceId) {
+    throw new ApiError(403, "Forbidden - You are not assigned to this trip");
+  }
+
+  const failedAmbulance = await Ambulance.findById(failedAmbulanceId).select(
+    "location"
+  );
+  const location = await getPatientLocation(
+    trip,
+    failedAmbulance?.location.coordinates
+  );
+
+  const previousStatus = trip.status;
+  const now = new Date();
+
+  // Conditional update so a concurrent status change (or second reassign) loses
+  const updatedTrip = await Trip.findOneAndUpdate(
+    { _id: tripId, status: previousStatus, ambulanceId: failedAmbulanceId },
+    {
+      $set: {
+        status: "SEARCHING",
+        ambulanceId: null,
+        searchStartedAt: now,
+      },
+      $unset: { unassignedAlertAt: "" },
+      $push: {
+        reassignments: {
+          fromAmbulanceId: failedAmbulanceId,
+          previousStatus,
+          reason,
+          location,
+          requestedBy,
+          timestamp: now,
+        },
+        timeline: {
+          status: "SEARCHING",
+          timestamp: now,
+          location,
+          updatedBy: requestedBy,
+        },
+      },
+    },
+    { new: true }
+  );
+
+  if (!updatedTrip) {
+    throw new ApiError(409, "Trip changed while reassigning, please retry");
+  }
+
+  // Release the failed unit: out of service until the driver goes ready again
+  await Ambulance.updateOne(
+    { _id: failedAmbulanceId, status: "on-trip" },
+    { $set: { status: "offline" } }
+  );
+  await removeAmbulanceFromRedis(failedAmbulanceId);
+  await redis.del(`location:ambulance:${tripId}`);
+  // The replacement's run is billed from scratch
+  await clearTripDistance(tripId);
+
+  // Fresh dispatch state (old candidates/declines belong to the first search)
+  await clearTripOffer(tripId);
+
+  try {
+    const io = getIO();
+    const payload = {
+      tripId,
+      previousAmbulanceId: failedAmbulanceId,
+      previousStatus,
+      reason,
+      requestedBy,
+      location,
+      status: "SEARCHING",
+      message: "Your ambulance is being replaced. Searching for the nearest available unit...",
+      timestamp: now.toISOString(),
+    };
+
+    io.to(`trip:${tripId}`).emit("ambulance_reassigned", payload);
+    io.to("admin-room").emit("ambulance_reassigned", payload);
+  } catch (socketError) {
+    console.error("Socket emission error:", socketError);
+  }
+
+  await emitTripStatusUpdated(tripId, "SEARCHING", requestedBy);
+
+  console.log(
+    `🔄 Trip ${tripId}: ambulance ${failedAmbulanceId} released (${reason}), dispatching replacement`
+  );
+
+  const [lng, lat] = location;
+  const nearbyAmbulances = await findNearbyAmbulances(lng, lat, undefined, {
+    ...(updatedTrip.requiredCapability && {
+      requiredCapability: updatedTrip.requiredCapability,
+    }),
+  });
+
+  await startTripDispatch(
+    tripId,
+    nearbyAmbulances.filter(
+      (candidate) => candidate.ambulanceId !== failedAmbulanceId
+    )
+  );
+
+  return updatedTrip;
+};
+
+export { reassignTripAmbulance };
@@ -0,0 +1,340 @@
+import mongoose from "mongoose";
+import { Trip } from "../model/trip.model.js";
+import type { ITrip, TriageLevel } from "../model/trip.model.js";
+import { User } from "../../user/model/user.model.js";
+import { Hospital } from "../../hospital/model/hospital.model.js";
+import type { AmbulanceCapability } from "../../ambulance/model/ambulance.model.js";
+import { findNearbyAmbulances } from "../../ambulance/services/ambulance.service.js";
+import { ApiError } from "../../../shared/utils/ApiError.js";
+import { getIO } from "../../../shared/infra/sockets/socket.config.js";
+import {
+  scheduleTripJobs,
+  cancelScheduledTripJobs,
+} from "../../../shared/infra/queues/scheduled-trip.queue.js";
+import { startTripDispatch } from "./dispatch.service.js";
+import { emitTripStatusUpdated } from "./trip.service.js";
+import { notifyIncomingPatient } from "../../hospital/services/hospital.handshake.js";
+import { reserveTripResources } from "../../hospital/services/reservation.service.js";
+
+interface ScheduleTripInput {
+  userId: string;
+  pickupAddress?: string;
+  pickupCoordinates: [number, number];
+  dropoffAddress?: string;
+  dropoffCoordinates?: [number, number];
+  destinationHospitalId?: string;
+  pickupWindowStart: Date;
+  pickupWindowEnd: Date;
+  requiredCapability?: AmbulanceCapability;
+  triageLevel?: TriageLevel;
+}
+
+interface RescheduleTripInput {
+  tripId: string;
+  pickupWindowStart: Date;
+  pickupWindowEnd: Date;
+  requestedBy: string; // "user:ID" or "admin:ID"
+  userId?: string; // Set when a patient reschedules (must own the trip)
+}
+
+/**
+ * Book a non-emergency transport ahead of time
+ * 1. Validate user and optional destination hospital
+ * 2. Create the trip in SCHEDULED state with its pickup window
+ * 3. Queue the lead-time dispatch and the reminders
+ */
+const scheduleTrip = async (input: ScheduleTripInput): Promise<ITrip> => {
+  const {
+    userId,
+    pickupAddress,
+    pickupCoordinates,
+    dropoffAddress,
+    dropoffCoordinates,
+    destinationHospitalId,
+    pickupWindowStart,
+    pickupWindowEnd,
+    requiredCapability,
+    triageLevel,
+  } = input;
+
+  const user = await User.findById(userId).select("-password -refreshToken");
+  if (!user) {
+    throw new ApiError(404, "User not found");
+  }
+
+  if (pickupWindowStart.getTime() <= Date.now()) {
+    throw new ApiError(400, "Pickup window must start in the future");
+  }
+
+  let hospital: any = null;
+  if (destinationHospitalId) {
+    if (!mongoose.Types.ObjectId.isValid(destinationHospitalId)) {
+      throw new ApiError(400, "Invalid hospital ID");
+    }
+    hospital = await Hospital.findById(destinationHospitalId).select(
+      "-password -refreshToken"
+    );
+    if (!hospital) {
+      throw new ApiError(404, "Specified hospital not found");
+    }
+  }
+
+  const trip = await Trip.create({
+    userId: user._id,
+    type: "SCHEDULED",
+    status: "SCHEDULED",
+    ...(triageLevel && { triageLevel }),
+    ...(requiredCapability && { requiredCapability }),
+    scheduledPickup: {
+      windowStart: pickupWindowStart,
+      windowEnd: pickupWindowEnd,
+    },
+    pickup: {
+      ...(pickupAddress && { address: pickupAddress }),
+      coordinates: pickupCoordinates,
+    },
+    ...(hospital
+      ? {
+          dropoff: {
+            address: hospital.address,
+            coordinates: hospital.location.coordinates,
+          },
+          destinationHospitalId: hospital._id,
+        }
+      : (dropoffAddress || dropoffCoordinates) && {
+          dropoff: {
+            ...(dropoffAddress && { address: dropoffAddress }),
+            ...(dropoffCoordinates && { coordinates: dropoffCoordinates }),
+          },
+        }),
+    patientSnapshot: {
+      userId: user._id.toString(),
+      name: user.name,
+      phone: user.phone,
+      bloodGroup: user.bloodGroup,
+      medicalHistory: user.medicalHistory || "",
+    },
+    timeline: [
+      {
+        status: "SCHEDULED",
+        timestamp: new Date(),
+        location: pickupCoordinates,
+        updatedBy: `user:${userId}`,
+      },
+    ],
+  });
+
+  await scheduleTripJobs(trip._id.toString(), pickupWindowStart);
+
+  try {
+    getIO().to("admin-room").emit("trip_scheduled", {
+      tripId: trip._id,
+      userId,
+      pickup: trip.pickup,
+      scheduledPickup: trip.scheduledPickup,
+      requiredCapability: trip.requiredCapability,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (socketError) {
+    console.error("Socket emission error:", socketError);
+  }
+
+  console.log(
+    `📅 Trip ${trip._id} scheduled for ${pickupWindowStart.toISOString()}`
+  );
+
+  return trip;
+};
+
+/**
+ * Move the pickup window of a scheduled trip (only before dispatch has started)
+ */
+const rescheduleTrip = async (input: RescheduleTripInput): Promise<ITrip> => {
+  const { tripId, pickupWindowStart, pickupWindowEnd, requestedBy, userId } =
+    input;
+
+  const trip = await Trip.findById(tripId);
+  if (!trip) {
+    throw new ApiError(404, "Trip not found");
+  }
+
+  if (userId && trip.userId?.toString() !== userId) {
+    throw new ApiError(403, "Forbidden - Access denied");
+  }
+
+  if (trip.status !== "SCHEDULED") {
+    throw new ApiError(
+      409,
+      "Only trips that are still scheduled can be rescheduled"
+    );
+  }
+
+  if (pickupWindowStart.getTime() <= Date.now()) {
+    throw new ApiError(400, "Pickup window must start in the future");
+  }
+
+  const previousWindow = trip.scheduledPickup;
+
+  // Conditional on SCHEDULED: the dispatch job may have started the search meanwhile
+  const rescheduled = await Trip.findOneAndUpdate(
+    { _id: tripId, status: "SCHEDULED" },
+    {
+      $set: {
+        scheduledPickup: {
+          windowStart: pickupWindowStart,
+          windowEnd: pickupWindowEnd,
+        },
+      },
+      $push: {
+        timeline: {
+          status: "SCHEDULED",
+          timestamp: new Date(),
+          updatedBy: requestedBy,
+        },
+      },
+    },
+    { new: true }
+  );
+
+  if (!rescheduled) {
+    throw new ApiError(
+      409,
+      "Only trips that are still scheduled can be rescheduled"
+    );
+  }
+
+  // Replace the queued dispatch/reminders with ones for the new window
+  await cancelScheduledTripJobs(tripId);
+  await scheduleTripJobs(tripId, pickupWindowStart);
+
+  try {
+    const io = getIO();
+    const payload = {
+      tripId,
+      previousWindow,
+      scheduledPickup: rescheduled.scheduledPickup,
+      rescheduledBy: requestedBy,
+      timestamp: new Date().toISOString(),
+    };
+
+    if (rescheduled.userId) {
+      io.to(`user:${rescheduled.userId.toString()}`).emit("trip_rescheduled", payload);
+    }
+    io.to("admin-room").emit("trip_rescheduled", payload);
+  } catch (socketError) {
+    console.error("Socket emission error:", socketError);
+  }
+
+  return rescheduled;
+};
+
+/**
+ * Start looking for an ambulance for a scheduled trip (run by the lead-time job)
+ * SCHEDULED → SEARCHING, then the normal offer flow takes over.
+ */
+const dispatchScheduledTrip = async (tripId: string): Promise<void> => {
+  const now = new Date();
+  const trip = await Trip.findOneAndUpdate(
+    { _id: tripId, status: "SCHEDULED" },
+    {
+      $set: { status: "SEARCHING", searchStartedAt: now },
+      $push: {
+        timeline: {
+          status: "SEARCHING",
+          timestamp: now,
+          updatedBy: "system:scheduler",
+        },
+      },
+    },
+    { new: true }
+  );
+
+  if (!trip) {
+    // Cancelled (or already dispatched) in the meantime
+    return;
+  }
+
+  console.log(`📅 Dispatching scheduled trip ${tripId}`);
+
+  await emitTripStatusUpdated(tripId, "SEARCHING", "system:scheduler");
+
+  // The bed is only held once the trip is actually on its way
+  if (trip.destinationHospitalId) {
+    await reserveTripResources(tripId, trip.destinationHospitalId.toString());
+    await notifyIncomingPatient(tripId);
+  }
+
+  const [lng, lat] = trip.pickup.coordinates;
+  const nearbyAmbulances = await findNearbyAmbulances(lng, lat, undefined, {
+    ...(trip.requiredCapability && {
+      requiredCapability: trip.requiredCapability,
+    }),
+  });
+
+  // Nobody found is fine: the trip is broadcast and the sweeper keeps retrying
+  await startTripDispatch(tripId, nearbyAmbulances);
+};
+
+/**
+ * Remind the patient (and the assigned driver, once there is one) of an upcoming pickup
+ */
+const sendTripReminder = async (
+  tripId: string,
+  minutesBefore: number
+): Promise<void> => {
+  const trip = await Trip.findById(tripId).lean();
+
+  if (!trip || ["COMPLETED", "CANCELLED"].includes(trip.status)) {
+    return;
+  }
+
+  try {
+    const io = getIO();
+    const payload = {
+      tripId,
+      minutesBefore,
+      status: trip.status,
+      scheduledPickup: trip.scheduledPickup,
+      pickup: trip.pickup,
+      dropoff: trip.dropoff,
+      message: `Scheduled pickup in ${minutesBefore} minutes`,
+      timestamp: new Date().toISOString(),
+    };
+
+    if (trip.userId) {
+      io.to(`user:${trip.userId.toString()}`).emit("trip_reminder", payload);
+    }
+    if (trip.ambulanceId) {
+      io.to(`ambulance:${trip.ambulanceId.toString()}`).emit("trip_reminder", {
+        ...payload,
+        patientSnapshot: trip.patientSnapshot,
+      });
+    }
+
+    console.log(`⏰ Sent ${minutesBefore}min reminder for trip ${tripId}`);
+  } catch (socketError) {
+    console.error("Socket emission error:", socketError);
+  }
+};
+
+/**
+ * Get a patient's upcoming scheduled trips (soonest first)
+ */
+const getUpcomingScheduledTrips = async (userId: string): Promise<ITrip[]> => {
+  return Trip.find({
+    userId,
+    type: "SCHEDULED",
+    status: { $nin: ["COMPLETED", "CANCELLED"] },
+  })
+    .sort({ "scheduledPickup.windowStart": 1 })
+    .populate("ambulanceId", "driverName vehicleNumber")
+    .populate("destinationHospitalId", "name address");
+};
+
+export {
+  scheduleTrip,
+  rescheduleTrip,
+  dispatchScheduledTrip,
+  sendTripReminder,
+  getUpcomingScheduledTrips,
+};
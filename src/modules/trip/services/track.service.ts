@@ -0,0 +1,317 @@
+import redis from "../../../config/redis.js";
+import { TRACK_MIN_INTERVAL_SECONDS } from "../../../config/env.js";
+import { TripTrackPoint } from "../model/trip-track.model.js";
+import type { ITripTrackPoint, TrackSource } from "../model/trip-track.model.js";
+import { Trip } from "../model/trip.model.js";
+import type { TripStatus } from "../model/trip.model.js";
+import { ApiError } from "../../../shared/utils/ApiError.js";
+
+interface TrackPointInput {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  heading?: number;
+  speed?: number;
+}
+
+export interface TrackGeoJson {
+  type: "FeatureCollection";
+  features: {
+    type: "Feature";
+    geometry:
+      | { type: "LineString"; coordinates: [number, number][] }
+      | { type: "Point"; coordinates: [number, number] };
+    properties: Record<string, unknown>;
+  }[];
+}
+
+// Breadcrumb as buffered in Redis until the next flush
+interface BufferedTrackPoint {
+  tripId: string;
+  role: TrackSource;
+  sourceId: string;
+  recordedAt: string;
+  location: [number, number];
+  accuracy?: number;
+  heading?: number;
+  speed?: number;
+  status: TripStatus;
+}
+
+const TRACK_BUFFER_KEY = "track_buffer";
+const FLUSH_BATCH_SIZE = 500;
+// Upper bound per flush so one run cannot take forever under heavy load
+const MAX_BATCHES_PER_FLUSH = 20;
+
+const throttleKey = (role: TrackSource, tripId: string): string =>
+  `track_throttle:${role}:${tripId}`;
+
+/**
+ * Buffer a position for the trip's permanent path
+ * At most one point per participant every TRACK_MIN_INTERVAL_SECONDS (SET NX acts as the throttle).
+ * @returns true if the point was kept
+ */
+const bufferTrackPoint = async (
+  tripId: string,
+  role: TrackSource,
+  sourceId: string,
+  status: TripStatus,
+  location: TrackPointInput
+): Promise<boolean> => {
+  const allowed = await redis.set(throttleKey(role, tripId), "1", {
+    NX: true,
+    PX: TRACK_MIN_INTERVAL_SECONDS * 1000,
+  });
+  if (!allowed) return false;
+
+  const point: BufferedTrackPoint = {
+    tripId,
+    role,
+    sourceId,
+    recordedAt: new Date().toISOString(),
+    location: [location.longitude, location.latitude],
+    ...(location.accuracy !== undefined && { accuracy: location.accuracy }),
+    ...(location.heading !== undefined && { heading: location.heading }),
+    ...(location.speed !== undefined && { speed: location.speed }),
+    status,
+  };
+
+  await redis.rPush(TRACK_BUFFER_KEY, JSON.stringify(point));
+  return true;
+};
+
+/**
+ * Write buffered breadcrumbs to MongoDB in batches
+ * Each batch is taken off the buffer atomically (LRANGE + LTRIM), so concurrent
+ * flushes never write the same point twice. Points that fail to insert are put back
+ * (only those: with ordered: false the rest of the batch is already written).
+ * @returns number of points written
+ */
+const flushTrackBuffer = async (): Promise<number> => {
+  let written = 0;
+
+  for (let batch = 0; batch < MAX_BATCHES_PER_FLUSH; batch++) {
+    const [items] = (await redis
+      .multi()
+      .lRange(TRACK_BUFFER_KEY, 0, FLUSH_BATCH_SIZE - 1)
+      .lTrim(TRACK_BUFFER_KEY, FLUSH_BATCH_SIZE, -1)
+      .execTyped());
+
+    if (!items || items.length === 0) break;
+
+    const points = items.map((item) => {
+      const point = JSON.parse(item) as BufferedTrackPoint;
+      return {
+        recordedAt: new Date(point.recordedAt),
+        meta: {
+          tripId: point.tripId,
+          role: point.role,
+          sourceId: point.sourceId,
+        },
+        location: point.location,
+        ...(point.accuracy !== undefined && { accuracy: point.accuracy }),
+        ...(point.heading !== undefined && { heading: point.heading }),
+        ...(point.speed !== undefined && { speed: point.speed }),
+        status: point.status,
+      };
+    });
+
+    try {
+      await TripTrackPoint.insertMany(points, { ordered: false });
+      written += points.length;
+    } catch (error) {
+      // MongoBulkWriteError lists the failed documents by batch index
+      const writeErrors = (error as { writeErrors?: { index: number }[] })
+        .writeErrors;
+      const failed = writeErrors
+        ? items.filter((_, index) =>
+            writeErrors.some((writeError) => writeError.index === index)
+          )
+        : items;
+
+      console.error(
+        `Track flush error, re-buffering ${failed.length} of ${items.length} points:`,
+        error
+      );
+      written += items.length - failed.length;
+      if (failed.length > 0) {
+        await redis.rPush(TRACK_BUFFER_KEY, failed);
+      }
+      break;
+    }
+
+    if (items.length < FLUSH_BATCH_SIZE) break;
+  }
+
+  if (written > 0) {
+    console.log(`🧭 Flushed ${written} track points`);
+  }
+
+  return written;
+};
+
+/**
+ * Recorded path of a trip in time order (optionally only one participant's points)
+ */
+const getTripTrackPoints = async (
+  tripId: string,
+  role: TrackSource = "ambulance"
+): Promise<ITripTrackPoint[]> => {
+  return TripTrackPoint.find({ "meta.tripId": tripId, "meta.role": role })
+    .sort({ recordedAt: 1 })
+    .lean<ITripTrackPoint[]>();
+};
+
+/**
+ * Recorded path of a trip with its timeline, for export
+ * Timeline entries without coordinates are placed at the recorded point closest in time.
+ */
+const getTripTrackWithMarkers = async (tripId: string) => {
+  const trip = await Trip.findById(tripId).select("timeline");
+  if (!trip) {
+    throw new ApiError(404, "Trip not found");
+  }
+
+  const points = await getTripTrackPoints(tripId);
+
+  const closestPoint = (time: number): [number, number] | null => {
+    let closest: ITripTrackPoint | null = null;
+    for (const point of points) {
+      if (
+        !closest ||
+        Math.abs(point.recordedAt.getTime() - time) <
+          Math.abs(closest.recordedAt.getTime() - time)
+      ) {
+        closest = point;
+      }
+    }
+    return closest?.location ?? null;
+  };
+
+  const markers = trip.timeline
+    .map((entry) => ({
+      status: entry.status,
+      timestamp: entry.timestamp,
+      ...(entry.updatedBy && { updatedBy: entry.updatedBy }),
+      location:
+        entry.location?.length === 2
+          ? entry.location
+          : closestPoint(entry.timestamp.getTime()),
+    }))
+    .filter(
+      (marker): marker is typeof marker & { location: [number, number] } =>
+        marker.location !== null
+    );
+
+  return { points, markers };
+};
+
+/**
+ * Trip path as a GeoJSON FeatureCollection:
+ * one LineString (with per-point times in coordTimes) + one Point per timeline status
+ */
+const getTripTrackGeoJson = async (tripId: string): Promise<TrackGeoJson> => {
+  const { points, markers } = await getTripTrackWithMarkers(tripId);
+
+  return {
+    type: "FeatureCollection",
+    features: [
+      {
+        type: "Feature",
+        geometry: {
+          type: "LineString",
+          coordinates: points.map((point) => point.location),
+        },
+        properties: {
+          kind: "path",
+          tripId,
+          pointCount: points.length,
+          startedAt: points[0]?.recordedAt ?? null,
+          endedAt: points[points.length - 1]?.recordedAt ?? null,
+          coordTimes: points.map((point) => point.recordedAt),
+          statuses: points.map((point) => point.status),
+          speeds: points.map((point) => point.speed ?? null),
+          headings: points.map((point) => point.heading ?? null),
+          accuracies: points.map((point) => point.accuracy ?? null),
+        },
+      },
+      ...markers.map((marker) => ({
+        type: "Feature" as const,
+        geometry: { type: "Point" as const, coordinates: marker.location },
+        properties: {
+          kind: "status",
+          status: marker.status,
+          timestamp: marker.timestamp,
+          ...(marker.updatedBy && { updatedBy: marker.updatedBy }),
+        },
+      })),
+    ],
+  };
+};
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// GPX 1.1 has no speed / course elements; Garmin's TrackPointExtension v2 defines both
+const GPX_TPX_NAMESPACE = "http://www.garmin.com/xmlschemas/TrackPointExtension/v2";
+
+/**
+ * Trip path as GPX 1.1: timeline statuses as waypoints, the path as one track segment
+ */
+const getTripTrackGpx = async (tripId: string): Promise<string> => {
+  const { points, markers } = await getTripTrackWithMarkers(tripId);
+
+  const waypoints = markers.map(
+    (marker) =>
+      `  <wpt lat="${marker.location[1]}" lon="${marker.location[0]}">\n` +
+      `    <time>${marker.timestamp.toISOString()}</time>\n` +
+      `    <name>${escapeXml(marker.status)}</name>\n` +
+      `  </wpt>`
+  );
+
+  const trackPoints = points.map((point) => {
+    const extensions = [
+      point.speed !== undefined && `<gpxtpx:speed>${point.speed}</gpxtpx:speed>`,
+      point.heading !== undefined && `<gpxtpx:course>${point.heading}</gpxtpx:course>`,
+    ].filter(Boolean);
+
+    return (
+      `      <trkpt lat="${point.location[1]}" lon="${point.location[0]}">\n` +
+      `        <time>${point.recordedAt.toISOString()}</time>\n` +
+      (extensions.length > 0
+        ? `        <extensions><gpxtpx:TrackPointExtension>${extensions.join("")}</gpxtpx:TrackPointExtension></extensions>\n`
+        : "") +
+      `      </trkpt>`
+    );
+  });
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<gpx version="1.1" creator="MedSwift" xmlns="http://www.topografix.com/GPX/1/1" xmlns:gpxtpx="${GPX_TPX_NAMESPACE}">`,
+    `  <metadata>`,
+    `    <name>Trip ${escapeXml(tripId)}</name>`,
+    `    <time>${new Date().toISOString()}</time>`,
+    `  </metadata>`,
+    ...waypoints,
+    `  <trk>`,
+    `    <name>Trip ${escapeXml(tripId)}</name>`,
+    `    <trkseg>`,
+    ...trackPoints,
+    `    </trkseg>`,
+    `  </trk>`,
+    `</gpx>`,
+  ].join("\n");
+};
+
+export {
+  bufferTrackPoint,
+  flushTrackBuffer,
+  getTripTrackPoints,
+  getTripTrackWithMarkers,
+  getTripTrackGeoJson,
+  getTripTrackGpx,
+};
@@ -1,13 +1,46 @@
 import { Trip } from "../model/trip.model.js";
-import type { ITrip, TripStatus } from "../model/trip.model.js";
+import type { ITrip, TripStatus, TriageLevel } from "../model/trip.model.js";
 import { User } from "../../user/model/user.model.js";
 import { Hospital } from "../../hospital/model/hospital.model.js";
+import type { HospitalSpecialty } from "../../hospital/model/hospital.model.js";
 import { ApiError } from "../../../shared/utils/ApiError.js";
 import { Ambulance } from "../../ambulance/model/ambulance.model.js";
-import { findNearbyAmbulances } from "../../ambulance/services/ambulance.service.js";
-import { findNearbyHospitals } from "../../hospital/services/hospital.service.js";
+import type {
+  IAmbulance,
+  AmbulanceCapability,
+} from "../../ambulance/model/ambulance.model.js";
+import {
+  findNearbyAmbulances,
+  syncAmbulancetoRedis,
+  removeAmbulanceFromRedis,
+  satisfiesCapability,
+} from "../../ambulance/services/ambulance.service.js";
+import {
+  findNearbyHospitals,
+  isHospitalDiverting,
+} from "../../hospital/services/hospital.service.js";
+import { rankHospitals } from "../../hospital/services/hospital.scoring.js";
+import { notifyIncomingPatient } from "../../hospital/services/hospital.handshake.js";
+import {
+  reserveTripResources,
+  releaseTripReservations,
+  occupyReservedBed,
+} from "../../hospital/services/reservation.service.js";
 import mongoose from "mongoose";
 import { getIO } from "../../../shared/infra/sockets/socket.config.js";
+import { estimateEta, formatEta } from "../../../shared/infra/eta/eta.service.js";
+import {
+  startTripDispatch,
+  getPendingOfferAmbulanceId,
+  completeTripOffer,
+  clearTripOffer,
+  getPickupTarget,
+} from "./dispatch.service.js";
+import { lockCareRecord } from "./care-record.service.js";
+import { finalizeTripFare, clearTripDistance } from "./fare.service.js";
+import { flushTrackBuffer } from "./track.service.js";
+import { getDutyStatus } from "../../ambulance/services/shift.service.js";
+import { cancelScheduledTripJobs } from "../../../shared/infra/queues/scheduled-trip.queue.js";
 
 interface CreateTripInput {
   userId: string;
@@ -15,41 +48,31 @@ interface CreateTripInput {
   pickupCoordinates: [number, number];
   destinationHospitalId?: string;
   bloodType?: string;
+  bloodUnits?: number;
   requireBeds?: boolean;
+  requiredCapability?: AmbulanceCapability;
+  requiredSpecialty?: HospitalSpecialty;
+  triageLevel?: TriageLevel;
+  isTrauma?: boolean;
 }
 
 interface UpdateTripStatusInput {
   tripId: string;
   status: TripStatus;
   ambulanceId?: string;
+  crewAmbulanceId?: string; // Set when the crew changes the status (must be the assigned unit)
   location?: [number, number];
   updatedBy?: string;
 }
 
 /**
- * Helper: Calculate ETA based on distance
- * Assumes average speed of 40 km/h in city traffic
- */
-function calculateETA(distanceInMeters: number): string {
-  const distanceInKm = distanceInMeters / 1000;
-  const avgSpeedKmh = 40;
-  const timeInHours = distanceInKm / avgSpeedKmh;
-  const timeInMinutes = Math.ceil(timeInHours * 60);
-  
-  if (timeInMinutes < 1) return "Less than 1 minute";
-  if (timeInMinutes === 1) return "1 minute";
-  return `${timeInMinutes} minutes`;
-}
-
-/**
- * Create a new trip request WITH AUTOMATIC AMBULANCE ASSIGNMENT
+ * Create a new trip request and start the offer-based dispatch
  * 1. Validate user exists and has complete profile
  * 2. Check for existing active trip
  * 3. Find nearby ambulances (with failover)
- * 4. AUTO-ASSIGN the nearest available ambulance
- * 5. Optionally find suitable hospital
- * 6. Create trip with ACCEPTED status (if ambulance found) or SEARCHING
- * 7. Emit socket events to user, ambulance, and admin
+ * 4. Optionally find suitable hospital
+ * 5. Create trip with SEARCHING status
+ * 6. Offer the trip to the nearest ambulance (it must accept within the timeout)
  */
 const createTripRequest = async (
   input: CreateTripInput & { userId: string }
@@ -60,7 +83,12 @@ const createTripRequest = async (
     pickupCoordinates,
     destinationHospitalId,
     bloodType,
+    bloodUnits,
     requireBeds,
+    requiredCapability,
+    requiredSpecialty,
+    triageLevel,
+    isTrauma,
   } = input;
 
   // 1. Validate user exists and fetch profile
@@ -92,7 +120,9 @@ const createTripRequest = async (
 
   // 3. Find nearby ambulances
   const [lng, lat] = pickupCoordinates;
-  const nearbyAmbulances = await findNearbyAmbulances(lng, lat, 5);
+  const nearbyAmbulances = await findNearbyAmbulances(lng, lat, undefined, {
+    ...(requiredCapability && { requiredCapability }),
+  });
 
   // 4. Find suitable hospital if needed
   let hospital: any = null;
@@ -109,10 +139,25 @@ const createTripRequest = async (
     if (!hospital) {
       throw new ApiError(404, "Specified hospital not found");
     }
+    if (
+      requiredSpecialty &&
+      !(hospital.specialties ?? []).includes(requiredSpecialty)
+    ) {
+      throw new ApiError(
+        409,
+        `Specified hospital has no ${requiredSpecialty} department`
+      );
+    }
+    if (isHospitalDiverting(hospital.diversion, isTrauma)) {
+      throw new ApiError(
+        409,
+        "Specified hospital is on diversion and not accepting this patient"
+      );
+    }
   }
 
   // If no hospital selected yet (either not provided or invalid ID ignored), try auto-finding
-  if (!hospital && (bloodType || requireBeds)) {
+  if (!hospital && (bloodType || requireBeds || requiredSpecialty)) {
     // Auto-find nearest suitable hospital based on requirements
     const filters: any = {};
     if (bloodType) {
@@ -128,141 +173,37 @@ const createTripRequest = async (
         "AB-": "AB_negative",
       };
       filters.bloodType = bloodTypeMapping[bloodType] || bloodType;
+      filters.bloodUnits = bloodUnits ?? 1;
     }
     if (requireBeds) filters.requireBeds = true;
-
-    const nearbyHospitals = await findNearbyHospitals(lng, lat, 1, filters);
-    if (nearbyHospitals.length > 0) {
-      hospital = nearbyHospitals[0]?.hospitalData;
-    }
-  }
-
-  // 5. AUTO-ASSIGN if ambulance found
-  if (nearbyAmbulances.length > 0) {
-    const nearest = nearbyAmbulances[0]!;
-    const ambulanceData = nearest.ambulanceData!;
-
-    // Update ambulance status to on-trip
-    await Ambulance.findByIdAndUpdate(ambulanceData._id, {
-      status: "on-trip",
+    if (requiredSpecialty) filters.specialty = requiredSpecialty;
+    if (isTrauma) filters.isTrauma = true;
+
+    // Pick the best scored candidate (travel time, capacity, stock, load), not just the nearest
+    const nearbyHospitals = await findNearbyHospitals(lng, lat, undefined, filters);
+    const rankedHospitals = await rankHospitals(pickupCoordinates, nearbyHospitals, {
+      ...(filters.bloodType && { bloodType: filters.bloodType }),
+      ...(requiredSpecialty && { requiredSpecialty }),
     });
-
-    // Create trip with ACCEPTED status (ambulance already assigned)
-    const trip = new Trip({
-      userId: user._id,
-      ambulanceId: ambulanceData._id,
-      status: "ACCEPTED",
-      acceptedAt: new Date(),
-      pickup: {
-        ...(pickupAddress && { address: pickupAddress }),
-        coordinates: pickupCoordinates,
-      },
-      ...(hospital && {
-        dropoff: {
-          address: hospital.address,
-          coordinates: hospital.location.coordinates,
-        },
-        destinationHospitalId: hospital._id,
-      }),
-      patientSnapshot: {
-        userId: user._id.toString(),
-        name: user.name,
-        phone: user.phone,
-        bloodGroup: user.bloodGroup,
-        medicalHistory: user.medicalHistory || "",
-      },
-      timeline: [
-        {
-          status: "SEARCHING",
-          timestamp: new Date(),
-          location: pickupCoordinates,
-          updatedBy: `user:${userId}`,
-        },
-        {
-          status: "ACCEPTED",
-          timestamp: new Date(),
-          location: ambulanceData.location.coordinates,
-          updatedBy: "system:auto-assign",
-        },
-      ],
-    });
-
-    await trip.save();
-
-    // 6. Populate trip data for socket emission
-    const populatedTrip = await Trip.findById(trip._id)
-      .populate("userId", "name phone bloodGroup")
-      .populate("ambulanceId", "driverName vehicleNumber phone location")
-      .populate("destinationHospitalId", "name address location")
-      .lean();
-
-    // 7. Emit socket events
-    try {
-      const io = getIO();
-      const distanceKm = (nearest.distance / 1000).toFixed(1);
-      const estimatedArrival = calculateETA(nearest.distance);
-
-      // Emit to user
-      io.to(`user:${userId}`).emit("ambulance_assigned", {
-        tripId: trip._id,
-        ambulance: {
-          id: ambulanceData._id,
-          driverName: ambulanceData.driverName,
-          vehicleNumber: ambulanceData.vehicleNumber,
-          // phone: ambulanceData.phone,
-          location: ambulanceData.location.coordinates,
-          distance: nearest.distance,
-          distanceKm,
-        },
-        estimatedArrival,
-        message: "Ambulance assigned successfully!",
-        trip: populatedTrip,
-      });
-
-      // Emit to assigned ambulance
-      io.to(`ambulance:${ambulanceData._id.toString()}`).emit(
-        "new_trip_assigned",
-        {
-          tripId: trip._id,
-          pickup: trip.pickup,
-          dropoff: trip.dropoff,
-          patient: trip.patientSnapshot,
-          distance: nearest.distance,
-          distanceKm,
-          message: "New trip assigned to you!",
-          trip: populatedTrip,
-        }
-      );
-
-      // Emit to admin room for monitoring
-      io.to("admin-room").emit("trip_auto_assigned", {
-        tripId: trip._id,
-        userId: user._id,
-        ambulanceId: ambulanceData._id,
-        distance: nearest.distance,
-        distanceKm,
-        timestamp: new Date().toISOString(),
-      });
-
+    if (rankedHospitals.length > 0) {
+      hospital = rankedHospitals[0]?.hospitalData;
       console.log(
-        `✅ Auto-assigned ambulance ${ambulanceData._id} to trip ${trip._id} (Distance: ${distanceKm}km)`
+        `🏥 Selected hospital ${rankedHospitals[0]?.hospitalId} (score ${rankedHospitals[0]?.score})`
       );
-    } catch (socketError) {
-      console.error("Socket emission error:", socketError);
-      // Don't throw - trip was created successfully, socket is just notification
     }
-
-    return trip;
   }
 
-  // 8. NO AMBULANCE FOUND - Create trip with SEARCHING status
-  console.warn(
-    `⚠️ EMERGENCY: No ambulances found for user ${userId} at [${lng}, ${lat}]`
-  );
-
+  // 5. Create trip in SEARCHING state - an ambulance is only assigned once a driver accepts
   const trip = new Trip({
     userId: user._id,
     status: "SEARCHING",
+    ...(triageLevel && { triageLevel }),
+    ...(isTrauma && { isTrauma }),
+    ...(requiredSpecialty && { requiredSpecialty }),
+    ...(bloodType && {
+      bloodRequirement: { bloodType, units: bloodUnits ?? 1 },
+    }),
+    ...(requiredCapability && { requiredCapability }),
     pickup: {
       ...(pickupAddress && { address: pickupAddress }),
       coordinates: pickupCoordinates,
@@ -293,23 +234,22 @@ const createTripRequest = async (
 
   await trip.save();
 
-  // 9. Broadcast to all ambulances (they can manually accept)
-  try {
-    const io = getIO();
-    io.to("ambulance-room").emit("new_trip_request", {
-      tripId: trip._id,
-      pickup: trip.pickup,
-      patientSnapshot: trip.patientSnapshot,
-      timestamp: new Date().toISOString(),
-    });
+  // Hold a bed (and blood) and send the pre-arrival notice so the hospital can prepare (or decline)
+  if (hospital) {
+    await reserveTripResources(trip._id.toString(), hospital._id.toString());
+    await notifyIncomingPatient(trip._id.toString());
+  }
 
-    console.log(
-      `📢 Broadcasted trip ${trip._id} to ambulance-room (no nearby ambulances found)`
+  if (nearbyAmbulances.length === 0) {
+    console.warn(
+      `⚠️ EMERGENCY: No ambulances found for user ${userId} at [${lng}, ${lat}]`
     );
-  } catch (socketError) {
-    console.error("Socket emission error:", socketError);
   }
 
+  // 6. Offer the trip to the nearest ambulance (cascades on decline/timeout,
+  //    falls back to a broadcast to all ambulances when nobody is left)
+  await startTripDispatch(trip._id.toString(), nearbyAmbulances);
+
   return trip;
 };
 
@@ -321,6 +261,7 @@ function validateStatusTransition(
   newStatus: TripStatus
 ): void {
   const validTransitions: Record<TripStatus, TripStatus[]> = {
+    SCHEDULED: ["SEARCHING", "CANCELLED"],
     SEARCHING: ["ACCEPTED", "CANCELLED"],
     ACCEPTED: ["ARRIVED_PICKUP", "CANCELLED"],
     ARRIVED_PICKUP: ["EN_ROUTE_HOSPITAL", "CANCELLED"],
@@ -338,19 +279,81 @@ function validateStatusTransition(
   }
 }
 
+/**
+ * Emit incident_trip_updated to the incident room (incident trips only)
+ */
+const emitIncidentTripUpdated = (
+  trip: Pick<ITrip, "incidentId" | "ambulanceId" | "destinationHospitalId">,
+  tripId: string,
+  status: TripStatus
+): void => {
+  if (!trip.incidentId) return;
+
+  const incidentId = trip.incidentId.toString();
+  getIO().to(`incident:${incidentId}`).emit("incident_trip_updated", {
+    incidentId,
+    tripId,
+    status,
+    ambulanceId: trip.ambulanceId,
+    destinationHospitalId: trip.destinationHospitalId,
+    timestamp: new Date().toISOString(),
+  });
+};
+
+/**
+ * Emit trip_status_updated (with the populated trip) to the trip room
+ */
+const emitTripStatusUpdated = async (
+  tripId: string,
+  status: TripStatus,
+  updatedBy?: string
+): Promise<void> => {
+  try {
+    const io = getIO();
+    const populatedTrip = await Trip.findById(tripId)
+      .populate("userId", "name phone")
+      .populate("ambulanceId", "driverName vehicleNumber")
+      .populate("destinationHospitalId", "name address")
+      .lean();
+
+    io.to(`trip:${tripId}`).emit("trip_status_updated", {
+      tripId,
+      status,
+      timestamp: new Date().toISOString(),
+      updatedBy,
+      trip: populatedTrip,
+    });
+
+    if (populatedTrip) {
+      emitIncidentTripUpdated(populatedTrip, tripId, status);
+    }
+
+    console.log(
+      `📡 Emitted trip_status_updated for trip ${tripId}: ${status}`
+    );
+  } catch (socketError) {
+    console.error("Socket emission error:", socketError);
+  }
+};
+
 /**
  * Update trip status with timeline tracking AND socket events
  */
 const updateTripStatus = async (
   input: UpdateTripStatusInput
 ): Promise<ITrip> => {
-  const { tripId, status, ambulanceId, location, updatedBy } = input;
+  const { tripId, status, ambulanceId, crewAmbulanceId, location, updatedBy } =
+    input;
 
   const trip = await Trip.findById(tripId);
   if (!trip) {
     throw new ApiError(404, "Trip not found");
   }
 
+  if (crewAmbulanceId && trip.ambulanceId?.toString() !== crewAmbulanceId) {
+    throw new ApiError(403, "Only the assigned crew can update this trip");
+  }
+
   // Validate status transition
   validateStatusTransition(trip.status, status);
 
@@ -376,48 +379,140 @@ const updateTripStatus = async (
       break;
   }
 
-  // Add to timeline
-  trip.timeline.push({
-    status,
-    timestamp: new Date(),
-    ...(location && { location }),
-    ...(updatedBy && { updatedBy }),
-  });
+  // Conditional on the status and crew read above, so a concurrent update cannot
+  // apply the same transition (and its side effects) twice
+  const updatedTrip = await Trip.findOneAndUpdate(
+    { _id: tripId, status: trip.status, ambulanceId: trip.ambulanceId ?? null },
+    {
+      $set: updateData,
+      $push: {
+        timeline: {
+          status,
+          timestamp: new Date(),
+          ...(location && { location }),
+          ...(updatedBy && { updatedBy }),
+        },
+      },
+    },
+    { new: true }
+  );
 
-  // Update trip
-  Object.assign(trip, updateData);
-  trip.markModified("timeline"); // Ensure timeline is marked as modified
-  const updatedTrip = await trip.save();
+  if (!updatedTrip) {
+    throw new ApiError(409, "Trip was updated by someone else, please retry");
+  }
 
-  // Emit socket event to trip room
-  try {
-    const io = getIO();
-    const populatedTrip = await Trip.findById(tripId)
-      .populate("userId", "name phone")
-      .populate("ambulanceId", "driverName vehicleNumber")
-      .populate("destinationHospitalId", "name address")
-      .lean();
+  // Patient handed over: the held bed is now occupied, the care record is final
+  if (status === "COMPLETED") {
+    await occupyReservedBed(tripId);
+    await lockCareRecord(tripId);
 
-    io.to(`trip:${tripId}`).emit("trip_status_updated", {
-      tripId,
-      status,
-      timestamp: new Date().toISOString(),
-      updatedBy,
-      trip: populatedTrip,
+    try {
+      await finalizeTripFare(tripId);
+    } catch (error) {
+      // The handover must not fail because of billing
+      console.error(`Fare computation error for trip ${tripId}:`, error);
+    }
+  }
+
+  // Trip over: write its last breadcrumbs now instead of waiting for the next flush
+  if (status === "COMPLETED" || status === "CANCELLED") {
+    flushTrackBuffer().catch((error) => {
+      console.error("Track flush error:", error);
     });
+  }
 
-    console.log(
-      `📡 Emitted trip_status_updated for trip ${tripId}: ${status}`
+  // Emit socket event to trip room
+  await emitTripStatusUpdated(tripId, status, updatedBy);
+
+  return updatedTrip;
+};
+
+/**
+ * Atomically claim an ambulance for a SEARCHING trip
+ * 1. Ambulance ready → on-trip (conditional update, only one trip can win the ambulance)
+ * 2. Trip SEARCHING → ACCEPTED (conditional update, only one ambulance can win the trip)
+ * 3. If the trip was already taken, the ambulance is released again
+ * 4. Ambulance is removed from the Redis geo pool so it is not found by other searches
+ */
+const claimAmbulanceForTrip = async (
+  tripId: string,
+  ambulanceId: string,
+  updatedBy: string
+): Promise<{ trip: ITrip; ambulance: IAmbulance }> => {
+  const duty = await getDutyStatus(ambulanceId);
+  if (!duty.onShift) {
+    throw new ApiError(409, "Ambulance is not on shift");
+  }
+  if (duty.fatigued) {
+    throw new ApiError(
+      409,
+      `Crew has been on duty for over ${duty.maxContinuousDutyHours} hours and cannot take new trips`
     );
-  } catch (socketError) {
-    console.error("Socket emission error:", socketError);
   }
 
-  return updatedTrip as ITrip;
+  const ambulance = await Ambulance.findOneAndUpdate(
+    { _id: ambulanceId, status: "ready" },
+    { $set: { status: "on-trip" } },
+    { new: true }
+  ).select("-password -refreshToken");
+
+  if (!ambulance) {
+    const exists = await Ambulance.exists({ _id: ambulanceId });
+    if (!exists) {
+      throw new ApiError(404, "Ambulance not found");
+    }
+    throw new ApiError(409, "Ambulance is no longer available");
+  }
+
+  const searchingTrip = await Trip.findById(tripId).select("requiredCapability");
+  const capabilityDowngraded = Boolean(
+    searchingTrip?.requiredCapability &&
+      !satisfiesCapability(
+        ambulance.capabilityClass,
+        searchingTrip.requiredCapability
+      )
+  );
+
+  const now = new Date();
+  const trip = await Trip.findOneAndUpdate(
+    { _id: tripId, status: "SEARCHING" },
+    {
+      $set: {
+        status: "ACCEPTED",
+        ambulanceId: ambulance._id,
+        acceptedAt: now,
+        capabilityDowngraded,
+      },
+      $push: {
+        timeline: {
+          status: "ACCEPTED",
+          timestamp: now,
+          location: ambulance.location.coordinates,
+          updatedBy,
+        },
+      },
+    },
+    { new: true }
+  );
+
+  if (!trip) {
+    // Lost the race for the trip - give the ambulance back
+    await Ambulance.updateOne(
+      { _id: ambulanceId, status: "on-trip" },
+      { $set: { status: "ready" } }
+    );
+    throw new ApiError(409, "Trip has already been accepted by another ambulance");
+  }
+
+  await removeAmbulanceFromRedis(ambulanceId);
+
+  return { trip, ambulance };
 };
 
 /**
- * Assign ambulance to trip (Manual acceptance - fallback)
+ * Assign ambulance to trip
+ * Used when an ambulance accepts its pending offer, or manually accepts a
+ * broadcasted trip that is not currently offered to someone else.
  */
 const assignAmbulanceToTrip = async (
   tripId: string,
@@ -430,63 +525,153 @@ const assignAmbulanceToTrip = async (
 
   if (trip.status !== "SEARCHING") {
     throw new ApiError(
-      400,
+      409,
       "Trip is not in SEARCHING state. Cannot assign ambulance."
     );
   }
 
-  const ambulance = await Ambulance.findById(ambulanceId);
-  if (!ambulance) {
-    throw new ApiError(404, "Ambulance not found");
+  // While an offer is pending, only the ambulance holding it may accept
+  const offeredTo = await getPendingOfferAmbulanceId(tripId);
+  if (offeredTo && offeredTo !== ambulanceId) {
+    throw new ApiError(409, "Trip is currently offered to another ambulance");
   }
 
-  if (ambulance.status !== "ready") {
-    throw new ApiError(400, "Ambulance is not available");
-  }
-
-  // Update ambulance status
-  await Ambulance.findByIdAndUpdate(ambulanceId, { status: "on-trip" });
-
-  // Update trip status
-  const updatedTrip = await updateTripStatus({
+  // Atomically claim the ambulance and the trip (loser gets a 409)
+  const { trip: updatedTrip, ambulance } = await claimAmbulanceForTrip(
     tripId,
-    status: "ACCEPTED",
     ambulanceId,
-    location: ambulance.location.coordinates,
-    updatedBy: `ambulance:${ambulanceId}`,
-  });
+    `ambulance:${ambulanceId}`
+  );
+
+  await emitTripStatusUpdated(tripId, "ACCEPTED", `ambulance:${ambulanceId}`);
+
+  // Stop the offer timer and drop the remaining candidates
+  await completeTripOffer(tripId, ambulanceId);
+
+  // Notify the patient and admins
+  try {
+    const io = getIO();
+    const eta = await estimateEta(
+      ambulance.location.coordinates,
+      getPickupTarget(trip)
+    );
+    const distance = eta.distanceMeters;
+    const distanceKm = (distance / 1000).toFixed(1);
+
+    // Incident casualties have no patient account, the incident room gets trip_status_updated instead
+    if (trip.userId) {
+      io.to(`user:${trip.userId.toString()}`).emit("ambulance_assigned", {
+        tripId,
+        ambulance: {
+          id: ambulance._id,
+          driverName: ambulance.driverName,
+          vehicleNumber: ambulance.vehicleNumber,
+          capabilityClass: ambulance.capabilityClass,
+          location: ambulance.location.coordinates,
+          distance,
+          distanceKm,
+        },
+        eta,
+        estimatedArrival: formatEta(eta.durationSeconds),
+        capabilityDowngraded: updatedTrip.capabilityDowngraded,
+        message: "Ambulance assigned successfully!",
+      });
+    }
+
+    io.to("admin-room").emit("trip_assigned", {
+      tripId,
+      userId: trip.userId,
+      incidentId: trip.incidentId,
+      ambulanceId,
+      distance,
+      distanceKm,
+      timestamp: new Date().toISOString(),
+    });
+
+    console.log(
+      `✅ Ambulance ${ambulanceId} accepted trip ${tripId} (Distance: ${distanceKm}km)`
+    );
+  } catch (socketError) {
+    console.error("Socket emission error:", socketError);
+  }
 
   return updatedTrip;
 };
 
 /**
  * Cancel trip
+ * @param requester - patient or crew cancelling (must be the trip's own); omitted for admins / system
  */
 const cancelTrip = async (
   tripId: string,
-  cancelledBy: string
+  cancelledBy: string,
+  requester: { userId?: string; ambulanceId?: string } = {}
 ): Promise<ITrip> => {
-  const trip = await Trip.findById(tripId);
-  if (!trip) {
-    throw new ApiError(404, "Trip not found");
-  }
+  const { userId, ambulanceId } = requester;
+
+  // Conditional update, so an ambulance claiming the trip meanwhile is seen in the result
+  const trip = await Trip.findOneAndUpdate(
+    {
+      _id: tripId,
+      status: { $nin: ["COMPLETED", "CANCELLED"] },
+      ...(userId && { userId }),
+      ...(ambulanceId && { ambulanceId }),
+    },
+    {
+      $set: { status: "CANCELLED" },
+      $push: {
+        timeline: {
+          status: "CANCELLED",
+          timestamp: new Date(),
+          updatedBy: cancelledBy,
+        },
+      },
+    },
+    { new: true }
+  );
 
-  if (["COMPLETED", "CANCELLED"].includes(trip.status)) {
+  if (!trip) {
+    const existing = await Trip.findById(tripId).select("userId ambulanceId");
+    if (!existing) {
+      throw new ApiError(404, "Trip not found");
+    }
+    if (
+      (userId && existing.userId?.toString() !== userId) ||
+      (ambulanceId && existing.ambulanceId?.toString() !== ambulanceId)
+    ) {
+      throw new ApiError(403, "Forbidden - You cannot cancel this trip");
+    }
     throw new ApiError(400, "Trip is already completed or cancelled");
   }
 
-  trip.status = "CANCELLED";
-  trip.timeline.push({
-    status: "CANCELLED",
-    timestamp: new Date(),
-    updatedBy: cancelledBy,
+  // Stop any pending offer for this trip
+  await clearTripOffer(tripId);
+
+  // Give held hospital resources back
+  await releaseTripReservations(tripId, "Trip cancelled");
+
+  // Cancelled trips are not billed
+  await clearTripDistance(tripId);
+
+  flushTrackBuffer().catch((error) => {
+    console.error("Track flush error:", error);
   });
 
-  await trip.save();
+  // Drop the queued dispatch/reminders of a scheduled trip
+  if (trip.type === "SCHEDULED") {
+    await cancelScheduledTripJobs(tripId);
+  }
 
-  // If ambulance was assigned, free it up
+  // If ambulance was assigned, free it up and put it back into the dispatch pool
   if (trip.ambulanceId) {
-    await Ambulance.findByIdAndUpdate(trip.ambulanceId, { status: "ready" });
+    const ambulance = await Ambulance.findOneAndUpdate(
+      { _id: trip.ambulanceId, status: "on-trip" },
+      { $set: { status: "ready" } },
+      { new: true }
+    );
+    if (ambulance) {
+      await syncAmbulancetoRedis(ambulance);
+    }
   }
 
   // Emit socket event
@@ -498,6 +683,15 @@ const cancelTrip = async (
       timestamp: new Date().toISOString(),
     });
 
+    emitIncidentTripUpdated(trip, tripId, "CANCELLED");
+
+    if (trip.destinationHospitalId) {
+      io.to(`hospital:${trip.destinationHospitalId.toString()}`).emit(
+        "incoming_patient_cancelled",
+        { tripId, cancelledBy, timestamp: new Date().toISOString() }
+      );
+    }
+
     console.log(`📡 Emitted trip_cancelled for trip ${tripId}`);
   } catch (socketError) {
     console.error("Socket emission error:", socketError);
@@ -564,6 +758,7 @@ const getActiveTrip = async (userId: string): Promise<ITrip | null> => {
 
 export {
   createTripRequest,
+  emitTripStatusUpdated,
   updateTripStatus,
   assignAmbulanceToTrip,
   cancelTrip,
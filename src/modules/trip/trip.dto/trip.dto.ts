@@ -1,6 +1,10 @@
 // src/modules/trip/trip.dto/trip.dto.ts
 
 import { z } from "zod";
+import { AMBULANCE_CAPABILITIES } from "../../ambulance/model/ambulance.model.js";
+import { HOSPITAL_SPECIALTIES } from "../../hospital/model/hospital.model.js";
+import { TRIAGE_LEVELS } from "../model/trip.model.js";
+import { MEDICATION_ROUTES } from "../model/care-record.model.js";
 
 // Location schema
 const locationSchema = z.tuple([
@@ -16,9 +20,57 @@ export const createTripSchema = z.object({
   bloodType: z
     .enum(["A+", "A-", "B+", "B-", "O+", "O-", "AB+", "AB-"])
     .optional(),
+  // Units of bloodType to hold at the destination hospital
+  bloodUnits: z.number().int().min(1).max(20).optional(),
   requireBeds: z.boolean().default(false),
+  requiredCapability: z.enum(AMBULANCE_CAPABILITIES).optional(),
+  // Destination hospital must have this department (e.g. STROKE_UNIT)
+  requiredSpecialty: z.enum(HOSPITAL_SPECIALTIES).optional(),
+  triageLevel: z.enum(TRIAGE_LEVELS).default("P2"),
+  isTrauma: z.boolean().default(false),
 });
 
+// Pickup window of a scheduled trip (booked at most 30 days ahead, window up to 4 hours)
+const MAX_BOOKING_AHEAD_MS = 30 * 24 * 60 * 60 * 1000;
+const MAX_PICKUP_WINDOW_MS = 4 * 60 * 60 * 1000;
+
+const pickupWindowSchema = z
+  .object({
+    pickupWindowStart: z.coerce.date(),
+    pickupWindowEnd: z.coerce.date(),
+  })
+  .refine((window) => window.pickupWindowEnd > window.pickupWindowStart, {
+    message: "Pickup window end must be after its start",
+    path: ["pickupWindowEnd"],
+  })
+  .refine(
+    (window) =>
+      window.pickupWindowEnd.getTime() - window.pickupWindowStart.getTime() <=
+      MAX_PICKUP_WINDOW_MS,
+    { message: "Pickup window cannot be longer than 4 hours", path: ["pickupWindowEnd"] }
+  )
+  .refine(
+    (window) =>
+      window.pickupWindowStart.getTime() <= Date.now() + MAX_BOOKING_AHEAD_MS,
+    { message: "Trips can be scheduled at most 30 days ahead", path: ["pickupWindowStart"] }
+  );
+
+// Schedule a non-emergency transport (discharge, dialysis transfer, ...)
+export const scheduleTripSchema = z
+  .object({
+    pickupAddress: z.string().trim().optional(),
+    pickupCoordinates: locationSchema,
+    dropoffAddress: z.string().trim().optional(),
+    dropoffCoordinates: locationSchema.optional(),
+    destinationHospitalId: z.string().optional(),
+    requiredCapability: z.enum(AMBULANCE_CAPABILITIES).optional(),
+    triageLevel: z.enum(TRIAGE_LEVELS).default("P4"),
+  })
+  .and(pickupWindowSchema);
+
+// Reschedule a scheduled trip
+export const rescheduleTripSchema = pickupWindowSchema;
+
 // Update trip status schema
 export const updateTripStatusSchema = z.object({
   status: z.enum([
@@ -33,11 +85,95 @@ export const updateTripStatusSchema = z.object({
   location: locationSchema.optional(),
 });
 
+// Driver override of automatic arrival detection
+export const tripGeofenceSchema = z.object({
+  enabled: z.boolean(),
+});
+
 // Assign ambulance schema
 export const assignAmbulanceSchema = z.object({
   ambulanceId: z.string().min(1, "Ambulance ID is required"),
 });
 
+// Reassign trip schema (replace a broken-down ambulance mid-trip)
+export const reassignTripSchema = z.object({
+  reason: z.string().trim().min(3, "Reason must be at least 3 characters"),
+});
+
+// Care record entries (entry times default to now)
+const careRecordEntriesSchema = z.object({
+  chiefComplaint: z.string().trim().min(1).max(500).optional(),
+  notes: z.string().trim().max(5000).optional(),
+  vitals: z
+    .array(
+      z.object({
+        recordedAt: z.coerce.date().optional(),
+        heartRate: z.number().min(0).max(300).optional(),
+        systolicBP: z.number().min(0).max(300).optional(),
+        diastolicBP: z.number().min(0).max(200).optional(),
+        respiratoryRate: z.number().min(0).max(80).optional(),
+        spo2: z.number().min(0).max(100).optional(),
+        temperature: z.number().min(20).max(45).optional(),
+        bloodGlucose: z.number().min(0).max(1000).optional(),
+        painScore: z.number().int().min(0).max(10).optional(),
+      })
+    )
+    .max(50)
+    .optional(),
+  gcs: z
+    .array(
+      z.object({
+        recordedAt: z.coerce.date().optional(),
+        eye: z.number().int().min(1).max(4),
+        verbal: z.number().int().min(1).max(5),
+        motor: z.number().int().min(1).max(6),
+      })
+    )
+    .max(50)
+    .optional(),
+  interventions: z
+    .array(
+      z.object({
+        name: z.string().trim().min(1).max(200),
+        performedAt: z.coerce.date().optional(),
+        notes: z.string().trim().max(1000).optional(),
+      })
+    )
+    .max(50)
+    .optional(),
+  medications: z
+    .array(
+      z.object({
+        name: z.string().trim().min(1).max(200),
+        dose: z.string().trim().min(1).max(100),
+        route: z.enum(MEDICATION_ROUTES),
+        administeredAt: z.coerce.date().optional(),
+      })
+    )
+    .max(50)
+    .optional(),
+});
+
+const hasCareRecordEntry = (entries: z.infer<typeof careRecordEntriesSchema>) =>
+  Object.values(entries).some((value) =>
+    Array.isArray(value) ? value.length > 0 : Boolean(value)
+  );
+
+// Record care during the trip
+export const recordCareSchema = careRecordEntriesSchema.refine(
+  hasCareRecordEntry,
+  { message: "At least one care record field is required" }
+);
+
+// Amend a care record locked at COMPLETED
+export const amendCareRecordSchema = careRecordEntriesSchema
+  .extend({
+    reason: z.string().trim().min(3, "Reason must be at least 3 characters"),
+  })
+  .refine(({ reason, ...entries }) => hasCareRecordEntry(entries), {
+    message: "At least one care record field is required",
+  });
+
 // Cancel trip schema
 export const cancelTripSchema = z.object({
   reason: z.string().trim().optional(),
@@ -48,6 +184,7 @@ export const tripHistoryQuerySchema = z.object({
   limit: z.coerce.number().min(1).max(50).default(10),
   status: z
     .enum([
+      "SCHEDULED",
       "SEARCHING",
       "ACCEPTED",
       "ARRIVED_PICKUP",
@@ -62,6 +199,12 @@ export const tripHistoryQuerySchema = z.object({
 // Type exports
 export type CreateTripInput = z.infer<typeof createTripSchema>;
 export type UpdateTripStatusInput = z.infer<typeof updateTripStatusSchema>;
+export type TripGeofenceInput = z.infer<typeof tripGeofenceSchema>;
 export type AssignAmbulanceInput = z.infer<typeof assignAmbulanceSchema>;
+export type ScheduleTripInput = z.infer<typeof scheduleTripSchema>;
+export type RescheduleTripInput = z.infer<typeof rescheduleTripSchema>;
+export type ReassignTripInput = z.infer<typeof reassignTripSchema>;
+export type RecordCareInput = z.infer<typeof recordCareSchema>;
+export type AmendCareRecordInput = z.infer<typeof amendCareRecordSchema>;
 export type CancelTripInput = z.infer<typeof cancelTripSchema>;
 export type TripHistoryQuery = z.infer<typeof tripHistoryQuerySchema>;
\ No newline at end of file
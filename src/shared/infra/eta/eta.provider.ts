@@ -0,0 +1,39 @@
+// src/shared/infra/eta/eta.provider.ts
+
+export type Coordinates = [number, number]; // [lng, lat]
+
+export interface EtaResult {
+  durationSeconds: number;
+  distanceMeters: number;
+  source: "osrm" | "heuristic";
+}
+
+/**
+ * Anything that can estimate travel time between points
+ */
+export interface EtaProvider {
+  readonly name: EtaResult["source"];
+
+  /**
+   * ETA from one origin to one destination
+   */
+  estimate(origin: Coordinates, destination: Coordinates): Promise<EtaResult>;
+
+  /**
+   * ETA from many origins (e.g. candidate ambulances) to one destination.
+   * Results are in the same order as `origins`.
+   */
+  estimateMany(
+    origins: Coordinates[],
+    destination: Coordinates
+  ): Promise<EtaResult[]>;
+
+  /**
+   * ETA from one origin (e.g. a pickup) to many destinations (e.g. hospitals).
+   * Results are in the same order as `destinations`.
+   */
+  estimateToMany(
+    origin: Coordinates,
+    destinations: Coordinates[]
+  ): Promise<EtaResult[]>;
+}
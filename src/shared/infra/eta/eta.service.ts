@@ -0,0 +1,76 @@
+// src/shared/infra/eta/eta.service.ts
+
+import { OSRM_URL, OSRM_TIMEOUT_MS } from "../../../config/env.js";
+import type { Coordinates, EtaProvider, EtaResult } from "./eta.provider.js";
+import { HeuristicEtaProvider } from "./heuristic.provider.js";
+import { OsrmEtaProvider } from "./osrm.provider.js";
+
+const heuristicProvider = new HeuristicEtaProvider();
+const roadProvider: EtaProvider | null = OSRM_URL
+  ? new OsrmEtaProvider(OSRM_URL, OSRM_TIMEOUT_MS)
+  : null;
+
+/**
+ * ETA between two points
+ * Uses the road network when OSRM is configured, falls back to the heuristic on any error.
+ */
+const estimateEta = async (
+  origin: Coordinates,
+  destination: Coordinates
+): Promise<EtaResult> => {
+  if (roadProvider) {
+    try {
+      return await roadProvider.estimate(origin, destination);
+    } catch (error) {
+      console.warn("⚠️ Road ETA failed, using heuristic:", error);
+    }
+  }
+  return heuristicProvider.estimate(origin, destination);
+};
+
+/**
+ * ETA from many origins to one destination (same order as `origins`)
+ */
+const estimateEtas = async (
+  origins: Coordinates[],
+  destination: Coordinates
+): Promise<EtaResult[]> => {
+  if (roadProvider) {
+    try {
+      return await roadProvider.estimateMany(origins, destination);
+    } catch (error) {
+      console.warn("⚠️ Road ETA table failed, using heuristic:", error);
+    }
+  }
+  return heuristicProvider.estimateMany(origins, destination);
+};
+
+/**
+ * ETA from one origin to many destinations (same order as `destinations`)
+ */
+const estimateEtasFrom = async (
+  origin: Coordinates,
+  destinations: Coordinates[]
+): Promise<EtaResult[]> => {
+  if (roadProvider) {
+    try {
+      return await roadProvider.estimateToMany(origin, destinations);
+    } catch (error) {
+      console.warn("⚠️ Road ETA table failed, using heuristic:", error);
+    }
+  }
+  return heuristicProvider.estimateToMany(origin, destinations);
+};
+
+/**
+ * Human readable ETA for notifications ("5 minutes")
+ */
+const formatEta = (durationSeconds: number): string => {
+  const minutes = Math.ceil(durationSeconds / 60);
+
+  if (minutes < 1) return "Less than 1 minute";
+  if (minutes === 1) return "1 minute";
+  return `${minutes} minutes`;
+};
+
+export { estimateEta, estimateEtas, estimateEtasFrom, formatEta };
@@ -0,0 +1,45 @@
+// src/shared/infra/eta/heuristic.provider.ts
+
+import { haversineDistance } from "../../utils/geo.util.js";
+import type { Coordinates, EtaProvider, EtaResult } from "./eta.provider.js";
+
+// Average ambulance speed in city traffic
+const AVG_SPEED_KMH = 40;
+
+/**
+ * Straight-line distance at a fixed average speed
+ * Used when no routing engine is configured or it is unreachable.
+ */
+export class HeuristicEtaProvider implements EtaProvider {
+  readonly name = "heuristic" as const;
+
+  async estimate(
+    origin: Coordinates,
+    destination: Coordinates
+  ): Promise<EtaResult> {
+    const distanceMeters = Math.round(haversineDistance(origin, destination));
+    const durationSeconds = Math.round(
+      distanceMeters / ((AVG_SPEED_KMH * 1000) / 3600)
+    );
+
+    return { durationSeconds, distanceMeters, source: this.name };
+  }
+
+  async estimateMany(
+    origins: Coordinates[],
+    destination: Coordinates
+  ): Promise<EtaResult[]> {
+    return Promise.all(
+      origins.map((origin) => this.estimate(origin, destination))
+    );
+  }
+
+  async estimateToMany(
+    origin: Coordinates,
+    destinations: Coordinates[]
+  ): Promise<EtaResult[]> {
+    return Promise.all(
+      destinations.map((destination) => this.estimate(origin, destination))
+    );
+  }
+}
@@ -0,0 +1,133 @@
+// src/shared/infra/eta/osrm.provider.ts
+
+import type { Coordinates, EtaProvider, EtaResult } from "./eta.provider.js";
+
+interface OsrmRouteResponse {
+  code: string;
+  message?: string;
+  routes?: { duration: number; distance: number }[];
+}
+
+interface OsrmTableResponse {
+  code: string;
+  message?: string;
+  durations?: (number | null)[][];
+  distances?: (number | null)[][];
+}
+
+/**
+ * Road-network ETA from an OSRM-compatible HTTP server
+ * (osrm-backend, or any local stand-in exposing /route and /table)
+ */
+export class OsrmEtaProvider implements EtaProvider {
+  readonly name = "osrm" as const;
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly timeoutMs: number = 2000,
+    private readonly profile: string = "driving"
+  ) {}
+
+  private async request<T extends { code: string; message?: string }>(
+    path: string
+  ): Promise<T> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, "")}${path}`, {
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`OSRM request failed with HTTP ${response.status}`);
+    }
+
+    const body = (await response.json()) as T;
+    if (body.code !== "Ok") {
+      throw new Error(`OSRM error: ${body.code} ${body.message ?? ""}`.trim());
+    }
+    return body;
+  }
+
+  async estimate(
+    origin: Coordinates,
+    destination: Coordinates
+  ): Promise<EtaResult> {
+    const coords = `${origin.join(",")};${destination.join(",")}`;
+    const body = await this.request<OsrmRouteResponse>(
+      `/route/v1/${this.profile}/${coords}?overview=false`
+    );
+
+    const route = body.routes?.[0];
+    if (!route) {
+      throw new Error("OSRM returned no route");
+    }
+
+    return {
+      durationSeconds: Math.round(route.duration),
+      distanceMeters: Math.round(route.distance),
+      source: this.name,
+    };
+  }
+
+  async estimateMany(
+    origins: Coordinates[],
+    destination: Coordinates
+  ): Promise<EtaResult[]> {
+    if (origins.length === 0) return [];
+
+    // Destination is the last coordinate; every origin is a source
+    const coords = [...origins, destination]
+      .map((point) => point.join(","))
+      .join(";");
+    const sources = origins.map((_, index) => index).join(";");
+
+    const body = await this.request<OsrmTableResponse>(
+      `/table/v1/${this.profile}/${coords}?sources=${sources}&destinations=${origins.length}&annotations=duration,distance`
+    );
+
+    return origins.map((_, index) => {
+      const duration = body.durations?.[index]?.[0];
+      const distance = body.distances?.[index]?.[0];
+
+      if (duration === null || duration === undefined) {
+        throw new Error(`OSRM found no route for origin ${index}`);
+      }
+
+      return {
+        durationSeconds: Math.round(duration),
+        distanceMeters: Math.round(distance ?? 0),
+        source: this.name,
+      };
+    });
+  }
+
+  async estimateToMany(
+    origin: Coordinates,
+    destinations: Coordinates[]
+  ): Promise<EtaResult[]> {
+    if (destinations.length === 0) return [];
+
+    // Origin is the first coordinate; every other one is a destination
+    const coords = [origin, ...destinations]
+      .map((point) => point.join(","))
+      .join(";");
+    const targets = destinations.map((_, index) => index + 1).join(";");
+
+    const body = await this.request<OsrmTableResponse>(
+      `/table/v1/${this.profile}/${coords}?sources=0&destinations=${targets}&annotations=duration,distance`
+    );
+
+    return destinations.map((_, index) => {
+      const duration = body.durations?.[0]?.[index];
+      const distance = body.distances?.[0]?.[index];
+
+      if (duration === null || duration === undefined) {
+        throw new Error(`OSRM found no route to destination ${index}`);
+      }
+
+      return {
+        durationSeconds: Math.round(duration),
+        distanceMeters: Math.round(distance ?? 0),
+        source: this.name,
+      };
+    });
+  }
+}
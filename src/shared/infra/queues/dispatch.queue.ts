@@ -0,0 +1,100 @@
+// src/shared/infra/queues/dispatch.queue.ts
+
+import type { Queue } from "bullmq";
+import { createQueue, QUEUE_NAMES } from "../../../config/queue.config.js";
+
+export const DISPATCH_JOBS = {
+  OFFER_TIMEOUT: "offer-timeout",
+  SEARCH_SWEEP: "search-sweep",
+  STALE_AMBULANCE_SWEEP: "stale-ambulance-sweep",
+} as const;
+
+export interface OfferTimeoutJobData {
+  tripId: string;
+  ambulanceId: string;
+}
+
+let dispatchQueue: Queue | null = null;
+
+/**
+ * Lazily create the dispatch queue (so importing this file doesn't open a connection)
+ */
+const getDispatchQueue = (): Queue => {
+  if (!dispatchQueue) {
+    dispatchQueue = createQueue(QUEUE_NAMES.DISPATCH);
+  }
+  return dispatchQueue;
+};
+
+// One timeout job per (trip, ambulance) offer, so it can be removed on accept/decline
+const offerTimeoutJobId = (tripId: string, ambulanceId: string): string =>
+  `offer-timeout:${tripId}:${ambulanceId}`;
+
+/**
+ * Schedule the expiry of a trip offer
+ * A kept job from an earlier offer of the same pair (e.g. a failed one) would make
+ * BullMQ skip the add as a duplicate, so it is removed first.
+ */
+const scheduleOfferTimeout = async (
+  data: OfferTimeoutJobData,
+  delayMs: number
+): Promise<void> => {
+  const queue = getDispatchQueue();
+  const jobId = offerTimeoutJobId(data.tripId, data.ambulanceId);
+
+  const previous = await queue.getJob(jobId);
+  await previous?.remove();
+
+  await queue.add(DISPATCH_JOBS.OFFER_TIMEOUT, data, {
+    jobId,
+    delay: delayMs,
+  });
+};
+
+/**
+ * Cancel a pending offer expiry (offer was answered before the timeout)
+ */
+const cancelOfferTimeout = async (
+  tripId: string,
+  ambulanceId: string
+): Promise<void> => {
+  try {
+    const job = await getDispatchQueue().getJob(
+      offerTimeoutJobId(tripId, ambulanceId)
+    );
+    await job?.remove();
+  } catch (error) {
+    // Job may be running right now; the worker re-checks the offer anyway
+    console.error("Failed to cancel offer timeout:", error);
+  }
+};
+
+/**
+ * Register (or update) the recurring sweep over trips stuck in SEARCHING
+ */
+const scheduleSearchSweep = async (everyMs: number): Promise<void> => {
+  await getDispatchQueue().upsertJobScheduler(
+    DISPATCH_JOBS.SEARCH_SWEEP,
+    { every: everyMs },
+    { name: DISPATCH_JOBS.SEARCH_SWEEP }
+  );
+};
+
+/**
+ * Register (or update) the recurring eviction of ambulances that stopped sending heartbeats
+ */
+const scheduleStaleAmbulanceSweep = async (everyMs: number): Promise<void> => {
+  await getDispatchQueue().upsertJobScheduler(
+    DISPATCH_JOBS.STALE_AMBULANCE_SWEEP,
+    { every: everyMs },
+    { name: DISPATCH_JOBS.STALE_AMBULANCE_SWEEP }
+  );
+};
+
+export {
+  getDispatchQueue,
+  scheduleOfferTimeout,
+  cancelOfferTimeout,
+  scheduleSearchSweep,
+  scheduleStaleAmbulanceSweep,
+};
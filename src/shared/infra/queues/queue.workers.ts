@@ -0,0 +1,16 @@
+// src/shared/infra/queues/queue.workers.ts
+
+import { initializeDispatchWorker } from "./workers/dispatch.worker.js";
+import { initializeScheduledTripWorker } from "./workers/scheduled-trip.worker.js";
+import { initializeReservationWorker } from "./workers/reservation.worker.js";
+import { initializeTrackWorker } from "./workers/track.worker.js";
+
+/**
+ * Start all background job workers
+ */
+export const initializeQueueWorkers = (): void => {
+  initializeDispatchWorker();
+  initializeScheduledTripWorker();
+  initializeReservationWorker();
+  initializeTrackWorker();
+};
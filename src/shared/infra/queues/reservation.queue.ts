@@ -0,0 +1,60 @@
+// src/shared/infra/queues/reservation.queue.ts
+
+import type { Queue } from "bullmq";
+import { createQueue, QUEUE_NAMES } from "../../../config/queue.config.js";
+
+export const RESERVATION_JOBS = {
+  EXPIRE: "reservation-expiry",
+} as const;
+
+export interface ReservationExpiryJobData {
+  reservationId: string;
+}
+
+let reservationQueue: Queue | null = null;
+
+/**
+ * Lazily create the reservations queue
+ */
+const getReservationQueue = (): Queue => {
+  if (!reservationQueue) {
+    reservationQueue = createQueue(QUEUE_NAMES.RESERVATIONS);
+  }
+  return reservationQueue;
+};
+
+const expiryJobId = (reservationId: string): string =>
+  `${RESERVATION_JOBS.EXPIRE}-${reservationId}`;
+
+/**
+ * Queue the automatic release of a hospital reservation at its expiry time
+ */
+const scheduleReservationExpiry = async (
+  reservationId: string,
+  expiresAt: Date
+): Promise<void> => {
+  await getReservationQueue().add(
+    RESERVATION_JOBS.EXPIRE,
+    { reservationId } satisfies ReservationExpiryJobData,
+    {
+      jobId: expiryJobId(reservationId),
+      delay: Math.max(expiresAt.getTime() - Date.now(), 0),
+    }
+  );
+};
+
+/**
+ * Remove the pending expiry job of a reservation that was released or consumed
+ */
+const cancelReservationExpiry = async (reservationId: string): Promise<void> => {
+  const jobId = expiryJobId(reservationId);
+  try {
+    const job = await getReservationQueue().getJob(jobId);
+    await job?.remove();
+  } catch (error) {
+    // Job may be running right now; the worker only releases reservations still HELD
+    console.error(`Failed to remove reservation job ${jobId}:`, error);
+  }
+};
+
+export { getReservationQueue, scheduleReservationExpiry, cancelReservationExpiry };
@@ -0,0 +1,95 @@
+// src/shared/infra/queues/scheduled-trip.queue.ts
+
+import type { Queue } from "bullmq";
+import { createQueue, QUEUE_NAMES } from "../../../config/queue.config.js";
+import {
+  SCHEDULED_DISPATCH_LEAD_MINUTES,
+  SCHEDULED_REMINDER_MINUTES,
+} from "../../../config/env.js";
+
+export const SCHEDULED_TRIP_JOBS = {
+  DISPATCH: "scheduled-dispatch",
+  REMINDER: "trip-reminder",
+} as const;
+
+export interface ScheduledDispatchJobData {
+  tripId: string;
+}
+
+export interface TripReminderJobData {
+  tripId: string;
+  minutesBefore: number;
+}
+
+let scheduledTripQueue: Queue | null = null;
+
+/**
+ * Lazily create the scheduled trips queue
+ */
+const getScheduledTripQueue = (): Queue => {
+  if (!scheduledTripQueue) {
+    scheduledTripQueue = createQueue(QUEUE_NAMES.SCHEDULED_TRIPS);
+  }
+  return scheduledTripQueue;
+};
+
+// BullMQ rejects custom ids containing ":" (unless they have exactly 3 parts), so use "-"
+const dispatchJobId = (tripId: string): string =>
+  `${SCHEDULED_TRIP_JOBS.DISPATCH}-${tripId}`;
+const reminderJobId = (tripId: string, minutesBefore: number): string =>
+  `${SCHEDULED_TRIP_JOBS.REMINDER}-${tripId}-${minutesBefore}`;
+
+/**
+ * Queue the lead-time dispatch and the reminders for a scheduled trip
+ * Reminders whose time has already passed are skipped, a late dispatch runs immediately.
+ */
+const scheduleTripJobs = async (
+  tripId: string,
+  windowStart: Date
+): Promise<void> => {
+  const queue = getScheduledTripQueue();
+  const pickupInMs = windowStart.getTime() - Date.now();
+
+  await queue.add(
+    SCHEDULED_TRIP_JOBS.DISPATCH,
+    { tripId } satisfies ScheduledDispatchJobData,
+    {
+      jobId: dispatchJobId(tripId),
+      delay: Math.max(pickupInMs - SCHEDULED_DISPATCH_LEAD_MINUTES * 60 * 1000, 0),
+    }
+  );
+
+  for (const minutesBefore of SCHEDULED_REMINDER_MINUTES) {
+    const delay = pickupInMs - minutesBefore * 60 * 1000;
+    if (delay <= 0) continue;
+
+    await queue.add(
+      SCHEDULED_TRIP_JOBS.REMINDER,
+      { tripId, minutesBefore } satisfies TripReminderJobData,
+      { jobId: reminderJobId(tripId, minutesBefore), delay }
+    );
+  }
+};
+
+/**
+ * Remove the pending dispatch and reminder jobs of a scheduled trip
+ */
+const cancelScheduledTripJobs = async (tripId: string): Promise<void> => {
+  const queue = getScheduledTripQueue();
+  const jobIds = [
+    dispatchJobId(tripId),
+    ...SCHEDULED_REMINDER_MINUTES.map((minutes) => reminderJobId(tripId, minutes)),
+  ];
+
+  for (const jobId of jobIds) {
+    try {
+      const job = await queue.getJob(jobId);
+      await job?.remove();
+    } catch (error) {
+      // Job may be running right now; the worker re-checks the trip status anyway
+      console.error(`Failed to remove scheduled trip job ${jobId}:`, error);
+    }
+  }
+};
+
+export { getScheduledTripQueue, scheduleTripJobs, cancelScheduledTripJobs };
@@ -0,0 +1,33 @@
+// src/shared/infra/queues/track.queue.ts
+
+import type { Queue } from "bullmq";
+import { createQueue, QUEUE_NAMES } from "../../../config/queue.config.js";
+
+export const TRACK_JOBS = {
+  FLUSH: "track-flush",
+} as const;
+
+let trackQueue: Queue | null = null;
+
+/**
+ * Lazily create the tracks queue
+ */
+const getTrackQueue = (): Queue => {
+  if (!trackQueue) {
+    trackQueue = createQueue(QUEUE_NAMES.TRACKS);
+  }
+  return trackQueue;
+};
+
+/**
+ * Register (or update) the recurring flush of buffered breadcrumbs to MongoDB
+ */
+const scheduleTrackFlush = async (everyMs: number): Promise<void> => {
+  await getTrackQueue().upsertJobScheduler(
+    TRACK_JOBS.FLUSH,
+    { every: everyMs },
+    { name: TRACK_JOBS.FLUSH }
+  );
+};
+
+export { getTrackQueue, scheduleTrackFlush };
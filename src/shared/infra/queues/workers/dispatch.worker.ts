@@ -0,0 +1,66 @@
+// src/shared/infra/queues/workers/dispatch.worker.ts
+
+import type { Job, Worker } from "bullmq";
+import { createWorker, QUEUE_NAMES } from "../../../../config/queue.config.js";
+import {
+  SEARCH_SWEEP_INTERVAL_SECONDS,
+  STALE_SWEEP_INTERVAL_SECONDS,
+} from "../../../../config/env.js";
+import {
+  DISPATCH_JOBS,
+  scheduleSearchSweep,
+  scheduleStaleAmbulanceSweep,
+} from "../dispatch.queue.js";
+import type { OfferTimeoutJobData } from "../dispatch.queue.js";
+import {
+  expireTripOffer,
+  sweepSearchingTrips,
+} from "../../../../modules/trip/services/dispatch.service.js";
+import { evictStaleAmbulances } from "../../../../modules/ambulance/services/ambulance.service.js";
+import { markMissedShifts } from "../../../../modules/ambulance/services/shift.service.js";
+
+/**
+ * Route dispatch jobs to the matching service function
+ */
+const processDispatchJob = async (job: Job): Promise<void> => {
+  switch (job.name) {
+    case DISPATCH_JOBS.OFFER_TIMEOUT: {
+      const { tripId, ambulanceId } = job.data as OfferTimeoutJobData;
+      await expireTripOffer(tripId, ambulanceId);
+      break;
+    }
+    case DISPATCH_JOBS.SEARCH_SWEEP:
+      await sweepSearchingTrips();
+      break;
+    case DISPATCH_JOBS.STALE_AMBULANCE_SWEEP:
+      await evictStaleAmbulances();
+      // Planned shifts that ended without a clock-in are closed on the same beat
+      await markMissedShifts();
+      break;
+    default:
+      console.warn(`Unknown dispatch job: ${job.name}`);
+  }
+};
+
+/**
+ * Start the worker that drives trip offer timers, the SEARCHING sweeper
+ * and the stale ambulance eviction (which also marks missed shifts)
+ */
+const initializeDispatchWorker = (): Worker => {
+  const worker = createWorker(QUEUE_NAMES.DISPATCH, processDispatchJob);
+
+  scheduleSearchSweep(SEARCH_SWEEP_INTERVAL_SECONDS * 1000).catch((error) => {
+    console.error("Failed to schedule search sweep:", error);
+  });
+
+  scheduleStaleAmbulanceSweep(STALE_SWEEP_INTERVAL_SECONDS * 1000).catch(
+    (error) => {
+      console.error("Failed to schedule stale ambulance sweep:", error);
+    }
+  );
+
+  console.log("✅ Dispatch worker initialized");
+  return worker;
+};
+
+export { initializeDispatchWorker };
@@ -0,0 +1,34 @@
+// src/shared/infra/queues/workers/reservation.worker.ts
+
+import type { Job, Worker } from "bullmq";
+import { createWorker, QUEUE_NAMES } from "../../../../config/queue.config.js";
+import { RESERVATION_JOBS } from "../reservation.queue.js";
+import type { ReservationExpiryJobData } from "../reservation.queue.js";
+import { expireReservation } from "../../../../modules/hospital/services/reservation.service.js";
+
+/**
+ * Route reservation jobs to the matching service function
+ */
+const processReservationJob = async (job: Job): Promise<void> => {
+  switch (job.name) {
+    case RESERVATION_JOBS.EXPIRE: {
+      const { reservationId } = job.data as ReservationExpiryJobData;
+      await expireReservation(reservationId);
+      break;
+    }
+    default:
+      console.warn(`Unknown reservation job: ${job.name}`);
+  }
+};
+
+/**
+ * Start the worker that releases hospital reservations once they expire
+ */
+const initializeReservationWorker = (): Worker => {
+  const worker = createWorker(QUEUE_NAMES.RESERVATIONS, processReservationJob);
+
+  console.log("✅ Reservation worker initialized");
+  return worker;
+};
+
+export { initializeReservationWorker };
@@ -0,0 +1,45 @@
+// src/shared/infra/queues/workers/scheduled-trip.worker.ts
+
+import type { Job, Worker } from "bullmq";
+import { createWorker, QUEUE_NAMES } from "../../../../config/queue.config.js";
+import { SCHEDULED_TRIP_JOBS } from "../scheduled-trip.queue.js";
+import type {
+  ScheduledDispatchJobData,
+  TripReminderJobData,
+} from "../scheduled-trip.queue.js";
+import {
+  dispatchScheduledTrip,
+  sendTripReminder,
+} from "../../../../modules/trip/services/scheduled-trip.service.js";
+
+/**
+ * Route scheduled trip jobs to the matching service function
+ */
+const processScheduledTripJob = async (job: Job): Promise<void> => {
+  switch (job.name) {
+    case SCHEDULED_TRIP_JOBS.DISPATCH: {
+      const { tripId } = job.data as ScheduledDispatchJobData;
+      await dispatchScheduledTrip(tripId);
+      break;
+    }
+    case SCHEDULED_TRIP_JOBS.REMINDER: {
+      const { tripId, minutesBefore } = job.data as TripReminderJobData;
+      await sendTripReminder(tripId, minutesBefore);
+      break;
+    }
+    default:
+      console.warn(`Unknown scheduled trip job: ${job.name}`);
+  }
+};
+
+/**
+ * Start the worker that dispatches scheduled trips and sends their reminders
+ */
+const initializeScheduledTripWorker = (): Worker => {
+  const worker = createWorker(QUEUE_NAMES.SCHEDULED_TRIPS, processScheduledTripJob);
+
+  console.log("✅ Scheduled trip worker initialized");
+  return worker;
+};
+
+export { initializeScheduledTripWorker };
@@ -0,0 +1,39 @@
+// src/shared/infra/queues/workers/track.worker.ts
+
+import type { Job, Worker } from "bullmq";
+import { createWorker, QUEUE_NAMES } from "../../../../config/queue.config.js";
+import { TRACK_FLUSH_INTERVAL_SECONDS } from "../../../../config/env.js";
+import { TRACK_JOBS, scheduleTrackFlush } from "../track.queue.js";
+import { flushTrackBuffer } from "../../../../modules/trip/services/track.service.js";
+
+/**
+ * Route track jobs to the matching service function
+ */
+const processTrackJob = async (job: Job): Promise<void> => {
+  switch (job.name) {
+    case TRACK_JOBS.FLUSH:
+      await flushTrackBuffer();
+      break;
+    default:
+      console.warn(`Unknown track job: ${job.name}`);
+  }
+};
+
+/**
+ * Start the worker that persists buffered trip breadcrumbs in batches
+ */
+const initializeTrackWorker = (): Worker => {
+  // One flush at a time, batches are taken from a single Redis buffer
+  const worker = createWorker(QUEUE_NAMES.TRACKS, processTrackJob, {
+    concurrency: 1,
+  });
+
+  scheduleTrackFlush(TRACK_FLUSH_INTERVAL_SECONDS * 1000).catch((error) => {
+    console.error("Failed to schedule track flush:", error);
+  });
+
+  console.log("✅ Track worker initialized");
+  return worker;
+};
+
+export { initializeTrackWorker };
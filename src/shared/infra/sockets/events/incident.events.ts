@@ -0,0 +1,95 @@
+import type { AuthenticatedSocket } from "../socket.middleware/socket.middleware.js";
+import mongoose from "mongoose";
+import { Incident } from "../../../../modules/incident/model/incident.model.js";
+import {
+  getIncidentSummary,
+  isAmbulanceOnIncident,
+} from "../../../../modules/incident/services/incident.service.js";
+
+interface IncidentRoomPayload {
+  incidentId: string;
+}
+
+/**
+ * Register incident room socket events (mass-casualty incidents)
+ */
+const registerIncidentEvents = (socket: AuthenticatedSocket) => {
+  const { userId, userRole } = socket;
+
+  /**
+   * Join an incident room (admins, and ambulances serving one of its trips)
+   */
+  socket.on(
+    "join_incident",
+    async (payload: IncidentRoomPayload, callback) => {
+      try {
+        const { incidentId } = payload;
+
+        if (!incidentId || !mongoose.Types.ObjectId.isValid(incidentId)) {
+          return callback?.({ success: false, message: "Valid incident ID is required" });
+        }
+
+        const incident = await Incident.findById(incidentId);
+        if (!incident) {
+          return callback?.({ success: false, message: "Incident not found" });
+        }
+
+        const isAuthorized =
+          userRole === "admin" ||
+          (userRole === "ambulance" &&
+            !!userId &&
+            (await isAmbulanceOnIncident(incidentId, userId)));
+
+        if (!isAuthorized) {
+          return callback?.({
+            success: false,
+            message: "Unauthorized: You are not part of this incident",
+          });
+        }
+
+        const roomName = `incident:${incidentId}`;
+        socket.join(roomName);
+
+        console.log(`🚨 ${userRole} ${userId} joined ${roomName}`);
+
+        callback?.({
+          success: true,
+          message: "Successfully joined incident",
+          incident,
+          summary: await getIncidentSummary(incident),
+        });
+      } catch (error) {
+        console.error("join_incident error:", error);
+        callback?.({ success: false, message: "Server error" });
+      }
+    }
+  );
+
+  /**
+   * Leave an incident room
+   */
+  socket.on(
+    "leave_incident",
+    async (payload: IncidentRoomPayload, callback) => {
+      try {
+        const { incidentId } = payload;
+
+        if (!incidentId) {
+          return callback?.({ success: false, message: "Incident ID is required" });
+        }
+
+        const roomName = `incident:${incidentId}`;
+        socket.leave(roomName);
+
+        console.log(`🚨 ${userRole} ${userId} left ${roomName}`);
+
+        callback?.({ success: true, message: "Successfully left incident" });
+      } catch (error) {
+        console.error("leave_incident error:", error);
+        callback?.({ success: false, message: "Server error" });
+      }
+    }
+  );
+};
+
+export { registerIncidentEvents };
@@ -1,6 +1,10 @@
 import type { AuthenticatedSocket } from "../socket.middleware/socket.middleware.js";
 import redis from "../../../../config/redis.js";
 import { Trip } from "../../../../modules/trip/model/trip.model.js";
+import { recordTripPosition } from "../../../../modules/trip/services/fare.service.js";
+import { bufferTrackPoint } from "../../../../modules/trip/services/track.service.js";
+import { checkTripGeofence } from "../../../../modules/trip/services/geofence.service.js";
+import { recordAmbulanceHeartbeat } from "../../../../modules/ambulance/services/ambulance.service.js";
 // import { Ambulance } from "../../../../modules/ambulance/model/ambulance.model.js";
 
 interface LocationUpdatePayload {
@@ -60,7 +64,7 @@ const registerLocationEvents = (socket: AuthenticatedSocket) => {
 
         // Only user and ambulance can send location updates
         const isAuthorized =
-          (userRole === "user" && trip.userId.toString() === userId) ||
+          (userRole === "user" && trip.userId?.toString() === userId) ||
           (userRole === "ambulance" && trip.ambulanceId?.toString() === userId);
 
         if (!isAuthorized) {
@@ -84,12 +88,41 @@ const registerLocationEvents = (socket: AuthenticatedSocket) => {
         });
 
         // If ambulance, also update their location in ambulance_locations geo index
+        // (XX: only while they are in the pool - claimed ambulances must stay out of it)
         if (userRole === "ambulance") {
-          await redis.geoAdd("ambulance_locations", {
-            member: userId,
-            longitude: location.longitude,
-            latitude: location.latitude,
-          });
+          await redis.geoAdd(
+            "ambulance_locations",
+            {
+              member: userId,
+              longitude: location.longitude,
+              latitude: location.latitude,
+            },
+            { condition: "XX" }
+          );
+        }
+
+        // Distance travelled per leg, billed on completion
+        if (userRole === "ambulance") {
+          await recordAmbulanceHeartbeat(userId);
+
+          await recordTripPosition(
+            tripId,
+            userId,
+            trip.status,
+            [location.longitude, location.latitude],
+            location.accuracy
+          );
+
+          // Arrived at pickup / hospital without the driver having to tap it
+          try {
+            await checkTripGeofence(
+              trip,
+              [location.longitude, location.latitude],
+              location.accuracy
+            );
+          } catch (geofenceError) {
+            console.error("Geofence check error:", geofenceError);
+          }
         }
 
         // Broadcast to trip room (excluding sender)
@@ -100,8 +133,14 @@ const registerLocationEvents = (socket: AuthenticatedSocket) => {
           timestamp: new Date().toISOString(),
         });
 
-        // Optionally persist to MongoDB (throttled - e.g., every 30 seconds)
-        // You can implement this with a rate limiter or time-based check
+        // Permanent breadcrumb (throttled, written to MongoDB in batches)
+        await bufferTrackPoint(
+          tripId,
+          userRole as "user" | "ambulance",
+          userId,
+          trip.status,
+          location
+        );
 
         callback?.({ success: true, message: "Location updated" });
       } catch (error) {
@@ -111,6 +150,52 @@ const registerLocationEvents = (socket: AuthenticatedSocket) => {
     }
   );
 
+  /**
+   * Ambulance keep-alive while waiting for trips (send every ~30 seconds)
+   * Units silent for AMBULANCE_STALE_THRESHOLD_SECONDS are evicted from dispatch and marked offline.
+   * An optional location also moves the unit in the dispatch pool.
+   */
+  socket.on(
+    "ambulance_heartbeat",
+    async (
+      payload: { location?: { latitude: number; longitude: number } } | undefined,
+      callback
+    ) => {
+      try {
+        if (userRole !== "ambulance") {
+          return callback?.({ success: false, message: "Only ambulances send heartbeats" });
+        }
+
+        await recordAmbulanceHeartbeat(userId);
+
+        // XX: only moves a unit already in the pool, never re-adds a claimed / evicted one
+        const location = payload?.location;
+        if (
+          typeof location?.latitude === "number" &&
+          typeof location?.longitude === "number"
+        ) {
+          await redis.geoAdd(
+            "ambulance_locations",
+            {
+              member: userId,
+              longitude: location.longitude,
+              latitude: location.latitude,
+            },
+            { condition: "XX" }
+          );
+        }
+
+        // Tells an evicted unit it has to go "ready" again
+        const inPool = (await redis.zScore("ambulance_locations", userId)) !== null;
+
+        callback?.({ success: true, message: "Heartbeat received", inPool });
+      } catch (error) {
+        console.error("ambulance_heartbeat error:", error);
+        callback?.({ success: false, message: "Server error" });
+      }
+    }
+  );
+
   /**
    * Get current location of a participant
    */
@@ -136,7 +221,7 @@ const registerLocationEvents = (socket: AuthenticatedSocket) => {
 
         const isAuthorized =
           userRole === "admin" ||
-          trip.userId.toString() === userId ||
+          trip.userId?.toString() === userId ||
           trip.ambulanceId?.toString() === userId;
 
         if (!isAuthorized) {
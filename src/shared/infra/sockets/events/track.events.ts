@@ -0,0 +1,153 @@
+import type { AuthenticatedSocket } from "../socket.middleware/socket.middleware.js";
+import mongoose from "mongoose";
+import { getTripTrackWithMarkers } from "../../../../modules/trip/services/track.service.js";
+import { ApiError } from "../../../utils/ApiError.js";
+
+interface TrackReplayPayload {
+  tripId: string;
+  speed?: number; // Playback multiplier, e.g. 10 = ten times faster than recorded
+}
+
+const DEFAULT_REPLAY_SPEED = 10;
+const MAX_REPLAY_SPEED = 100;
+// Long recorded gaps (stopped at the pickup, lost signal) are shortened to this
+const MAX_REPLAY_GAP_MS = 2000;
+
+/**
+ * Register trip track replay socket events (admins only)
+ * The recorded positions are streamed back to the requesting socket only.
+ */
+const registerTrackEvents = (socket: AuthenticatedSocket) => {
+  const { userId, userRole } = socket;
+
+  // tripId → pending timer of the running replay
+  const replays = new Map<string, NodeJS.Timeout>();
+
+  const stopReplay = (tripId: string): boolean => {
+    const timer = replays.get(tripId);
+    if (!timer) return false;
+
+    clearTimeout(timer);
+    replays.delete(tripId);
+    return true;
+  };
+
+  /**
+   * Replay a trip's recorded path at accelerated speed
+   */
+  socket.on(
+    "start_track_replay",
+    async (payload: TrackReplayPayload, callback) => {
+      try {
+        if (userRole !== "admin") {
+          return callback?.({
+            success: false,
+            message: "Unauthorized: Only admins can replay trip tracks",
+          });
+        }
+
+        const { tripId } = payload;
+        if (!tripId || !mongoose.Types.ObjectId.isValid(tripId)) {
+          return callback?.({ success: false, message: "Valid trip ID is required" });
+        }
+
+        const speed = Math.min(
+          Math.max(Number(payload.speed) || DEFAULT_REPLAY_SPEED, 1),
+          MAX_REPLAY_SPEED
+        );
+
+        const { points, markers } = await getTripTrackWithMarkers(tripId);
+        if (points.length === 0) {
+          return callback?.({
+            success: false,
+            message: "No recorded positions for this trip",
+          });
+        }
+
+        // Restarting replaces a replay already running for this trip
+        stopReplay(tripId);
+
+        const emitPoint = (index: number) => {
+          const point = points[index]!;
+
+          socket.emit("track_replay_point", {
+            tripId,
+            index,
+            total: points.length,
+            location: point.location,
+            recordedAt: point.recordedAt,
+            status: point.status,
+            speed: point.speed ?? null,
+            heading: point.heading ?? null,
+            accuracy: point.accuracy ?? null,
+          });
+
+          const next = points[index + 1];
+          if (!next) {
+            replays.delete(tripId);
+            socket.emit("track_replay_finished", {
+              tripId,
+              total: points.length,
+              timestamp: new Date().toISOString(),
+            });
+            return;
+          }
+
+          const gapMs =
+            next.recordedAt.getTime() - point.recordedAt.getTime();
+          replays.set(
+            tripId,
+            setTimeout(
+              () => emitPoint(index + 1),
+              Math.min(Math.max(gapMs, 0) / speed, MAX_REPLAY_GAP_MS)
+            )
+          );
+        };
+
+        console.log(`⏯️ ${userRole} ${userId} replaying trip ${tripId} at ${speed}x`);
+
+        callback?.({
+          success: true,
+          message: "Track replay started",
+          tripId,
+          speed,
+          total: points.length,
+          startedAt: points[0]!.recordedAt,
+          endedAt: points[points.length - 1]!.recordedAt,
+          markers,
+        });
+
+        emitPoint(0);
+      } catch (error) {
+        if (error instanceof ApiError) {
+          return callback?.({ success: false, message: error.message });
+        }
+        console.error("start_track_replay error:", error);
+        callback?.({ success: false, message: "Server error" });
+      }
+    }
+  );
+
+  /**
+   * Stop a running replay
+   */
+  socket.on(
+    "stop_track_replay",
+    (payload: { tripId: string }, callback) => {
+      const stopped = !!payload?.tripId && stopReplay(payload.tripId);
+
+      callback?.({
+        success: stopped,
+        message: stopped ? "Track replay stopped" : "No replay running for this trip",
+      });
+    }
+  );
+
+  socket.on("disconnect", () => {
+    for (const tripId of [...replays.keys()]) {
+      stopReplay(tripId);
+    }
+  });
+};
+
+export { registerTrackEvents };
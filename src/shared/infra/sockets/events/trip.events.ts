@@ -43,7 +43,7 @@ const registerTripEvents = (socket: AuthenticatedSocket) => {
 
       // Verify trip exists
       const trip = await Trip.findById(tripId)
-        .populate<{ userId: PopulatedUser }>("userId", "name phone")
+        .populate<{ userId: PopulatedUser | null }>("userId", "name phone")
         .populate<{ ambulanceId: PopulatedAmbulance }>("ambulanceId", "driverName vehicleNumber")
         .lean();
 
@@ -52,7 +52,12 @@ const registerTripEvents = (socket: AuthenticatedSocket) => {
       }
 
       // Authorization check
-      const isAuthorized = userRole === "admin" || trip.userId._id.toString() === userId || trip.ambulanceId?._id?.toString() === userId;
+      // Hospitals can follow trips routed to them
+      const isAuthorized =
+        userRole === "admin" ||
+        trip.userId?._id.toString() === userId ||
+        trip.ambulanceId?._id?.toString() === userId ||
+        (userRole === "hospital" && trip.destinationHospitalId?.toString() === userId);
 
       if (!isAuthorized) {
         return callback?.({
@@ -1,7 +1,10 @@
 import type { AuthenticatedSocket } from "../socket.middleware/socket.middleware.js";
 import { registerTripEvents } from "../events/trip.events.js";
 import { registerLocationEvents } from "../events/location.events.js";
+import { registerIncidentEvents } from "../events/incident.events.js";
+import { registerTrackEvents } from "../events/track.events.js";
 import redis from "../../../../config/redis.js";
+import { recordAmbulanceHeartbeat } from "../../../../modules/ambulance/services/ambulance.service.js";
 
 /**
  * Main connection handler - sets up all event listeners
@@ -42,14 +45,21 @@ const connectionHandler = async (socket: AuthenticatedSocket) => {
   if (userRole === "ambulance") {
     socket.join("ambulance-room"); // For broadcast notifications
     socket.join(`ambulance:${userId}`); // For direct messages
+    if (userId) await recordAmbulanceHeartbeat(userId);
   }
 
   if (userRole === "user") {
     socket.join(`user:${userId}`); // For direct messages
   }
+
+  if (userRole === "hospital") {
+    socket.join(`hospital:${userId}`); // Incoming patient notifications
+  }
   // Register event handlers
   registerTripEvents(socket);
   registerLocationEvents(socket);
+  registerIncidentEvents(socket);
+  registerTrackEvents(socket);
 
   // Simple echo test for debugging
   socket.on("echo_test", (data: any, callback) => {
@@ -4,10 +4,11 @@ import { ACCESS_TOKEN_SECRET } from "../../../../config/env.js";
 import { Ambulance } from "../../../../modules/ambulance/model/ambulance.model.js";
 import { User } from "../../../../modules/user/model/user.model.js";
 import { Admin } from "../../../../modules/admin/models/admin.model.js";
+import { Hospital } from "../../../../modules/hospital/model/hospital.model.js";
 
 interface JwtPayload {
   id: string;
-  role: "user" | "ambulance" | "admin";
+  role: "user" | "ambulance" | "admin" | "hospital";
   iat?: number;
   exp?: number;
 }
@@ -15,8 +16,8 @@ interface JwtPayload {
 // Extend Socket type to include authenticated data
 export interface AuthenticatedSocket extends Socket {
   userId?: string;
-  userRole?: "user" | "ambulance" | "admin";
-  userData?: any; // Full user/ambulance/admin document
+  userRole?: "user" | "ambulance" | "admin" | "hospital";
+  userData?: any; // Full user/ambulance/admin/hospital document
 }
 
 /**
@@ -58,6 +59,9 @@ export const socketAuthMiddleware = async (
       case "admin":
         userData = await Admin.findById(decoded.id).select("-password -refreshToken");
         break;
+      case "hospital":
+        userData = await Hospital.findById(decoded.id).select("-password -refreshToken");
+        break;
       default:
         return next(new Error("Authentication error: Invalid role"));
     }
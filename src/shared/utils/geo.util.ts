@@ -0,0 +1,24 @@
+const EARTH_RADIUS_METERS = 6371000;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two [lng, lat] points (Haversine formula)
+ * @returns distance in meters
+ */
+export const haversineDistance = (
+  from: [number, number],
+  to: [number, number]
+): number => {
+  const [lng1, lat1] = from;
+  const [lng2, lat2] = to;
+
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+};
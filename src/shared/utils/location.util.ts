@@ -0,0 +1,18 @@
+import redis from "../../config/redis.js";
+
+/**
+ * Read a live position cached by the location_update socket handler
+ * @returns [lng, lat], or null if the participant has not sent one recently
+ */
+export const getCachedLocation = async (
+  role: "user" | "ambulance",
+  tripId: string
+): Promise<[number, number] | null> => {
+  const raw = await redis.get(`location:${role}:${tripId}`);
+  if (!raw) return null;
+
+  const { longitude, latitude } = JSON.parse(raw);
+  return typeof longitude === "number" && typeof latitude === "number"
+    ? [longitude, latitude]
+    : null;
+};